@@ -3,16 +3,22 @@ import { Factory } from 'pip-services3-components-node';
 import { Descriptor } from 'pip-services3-commons-node';
 
 import { SqliteConnection } from '../persistence/SqliteConnection';
+import { SqliteBackupScheduler } from '../persistence/SqliteBackupScheduler';
+import { SqliteMaintenance } from '../persistence/SqliteMaintenance';
 
 /**
  * Creates Sqlite components by their descriptors.
  * 
  * @see [[https://pip-services3-node.github.io/pip-services3-components-node/classes/build.factory.html Factory]]
  * @see [[SqliteConnection]]
+ * @see [[SqliteBackupScheduler]]
+ * @see [[SqliteMaintenance]]
  */
 export class DefaultSqliteFactory extends Factory {
 	public static readonly Descriptor: Descriptor = new Descriptor("pip-services", "factory", "sqlite", "default", "1.0");
     public static readonly SqliteConnectionDescriptor: Descriptor = new Descriptor("pip-services", "connection", "sqlite", "*", "1.0");
+    public static readonly SqliteBackupSchedulerDescriptor: Descriptor = new Descriptor("pip-services", "backup-scheduler", "sqlite", "*", "1.0");
+    public static readonly SqliteMaintenanceDescriptor: Descriptor = new Descriptor("pip-services", "maintenance", "sqlite", "*", "1.0");
 
     /**
 	 * Create a new instance of the factory.
@@ -20,5 +26,7 @@ export class DefaultSqliteFactory extends Factory {
     public constructor() {
         super();
         this.registerAsType(DefaultSqliteFactory.SqliteConnectionDescriptor, SqliteConnection);
+        this.registerAsType(DefaultSqliteFactory.SqliteBackupSchedulerDescriptor, SqliteBackupScheduler);
+        this.registerAsType(DefaultSqliteFactory.SqliteMaintenanceDescriptor, SqliteMaintenance);
     }
 }
@@ -1,5 +1,6 @@
 /** @module connect */
 /** @hidden */
+const _ = require('lodash');
 const async = require('async');
 const url = require('url');
 
@@ -23,8 +24,16 @@ import { CredentialParams } from 'pip-services3-components-node';
  * 
  * - connection(s):    
  *   - discovery_key:             (optional) a key to retrieve the connection from [[https://pip-services3-node.github.io/pip-services3-components-node/interfaces/connect.idiscovery.html IDiscovery]]
- *   - database:                  database file path
- *   - uri:                       resource URI with file:// protocol
+ *   - database:                  database file path, <code>:memory:</code> or a name of in-memory database
+ *   - uri:                       resource URI with file: protocol, like <code>file://./data/app.db?mode=ro</code> or <code>file::memory:?cache=shared</code>
+ *   - mode:                      (optional) open mode: ro (read-only), rw (must already exist), rwc (read/write, create if missing) or memory (default: rwc)
+ *   - cache:                     (optional) cache mode: shared or private
+ * 
+ * - credential(s):    
+ *   - store_key:                 (optional) a key to retrieve the credentials from [[https://pip-services3-node.github.io/pip-services3-components-node/interfaces/auth.icredentialstore.html ICredentialStore]]
+ *   - password:                  (optional) encryption key for SQLCipher databases
+ * 
+ * The mode and cache can also be set as URI query parameters. Explicit settings override the URI ones.
  * 
  * ### References ###
  * 
@@ -32,6 +41,9 @@ import { CredentialParams } from 'pip-services3-components-node';
  * - <code>\*:credential-store:\*:\*:1.0</code>      (optional) Credential stores to resolve credentials
  */
 export class SqliteConnectionResolver implements IReferenceable, IConfigurable {
+    private static readonly _modes: string[] = ["ro", "rw", "rwc", "memory"];
+    private static readonly _cacheModes: string[] = ["shared", "private"];
+
     /** 
      * The connections resolver.
      */
@@ -61,12 +73,31 @@ export class SqliteConnectionResolver implements IReferenceable, IConfigurable {
         this._credentialResolver.setReferences(references);
     }
     
+    private parseUri(uri: string): any {
+        // Removing file:// or file:
+        let path = uri.startsWith("file://") ? uri.substring(7) : uri.substring(5);
+        let result: any = { database: path };
+
+        let pos = path.indexOf("?");
+        if (pos >= 0) {
+            result.database = path.substring(0, pos);
+
+            let params = new URLSearchParams(path.substring(pos + 1));
+            if (params.has("mode")) result.mode = params.get("mode");
+            if (params.has("cache")) result.cache = params.get("cache");
+        }
+
+        return result;
+    }
+
     private validateConnection(correlationId: string, connection: ConnectionParams): any {
+        let config: any = {};
+
         let uri = connection.getUri();
         if (uri != null) {
-            if (!uri.startsWith("file://"))
+            if (!uri.startsWith("file:"))
                 return new ConfigException(correlationId, "WRONG_PROTOCOL", "Connection protocol must be file://");
-            return null;
+            config = this.parseUri(uri);
         }
 
         // let host = connection.getHost();
@@ -77,8 +108,16 @@ export class SqliteConnectionResolver implements IReferenceable, IConfigurable {
         // if (port == 0)
         //     return new ConfigException(correlationId, "NO_PORT", "Connection port is not set");
 
-        let database = connection.getAsNullableString("database");
-        if (database == null)
+        let mode = connection.getAsNullableString("mode") || config.mode;
+        if (mode != null && SqliteConnectionResolver._modes.indexOf(mode) < 0)
+            return new ConfigException(correlationId, "WRONG_MODE", "Connection mode " + mode + " is not supported");
+
+        let cache = connection.getAsNullableString("cache") || config.cache;
+        if (cache != null && SqliteConnectionResolver._cacheModes.indexOf(cache) < 0)
+            return new ConfigException(correlationId, "WRONG_CACHE", "Connection cache " + cache + " is not supported");
+
+        let database = connection.getAsNullableString("database") || config.database;
+        if ((database == null || database == "") && mode != "memory")
             return new ConfigException(correlationId, "NO_DATABASE", "Connection database is not set");
 
         return null;
@@ -103,8 +142,7 @@ export class SqliteConnectionResolver implements IReferenceable, IConfigurable {
         for (let connection of connections) {
             let uri = connection.getUri();
             if (uri) {
-                // Removing file://
-                config.database = uri.substring(7);
+                config = _.assign(config, this.parseUri(uri));
             }
 
             // let host = connection.getHost();
@@ -115,16 +153,24 @@ export class SqliteConnectionResolver implements IReferenceable, IConfigurable {
 
             let database = connection.getAsNullableString("database");
             if (database) config.database = database;
+
+            let mode = connection.getAsNullableString("mode");
+            if (mode) config.mode = mode;
+
+            let cache = connection.getAsNullableString("cache");
+            if (cache) config.cache = cache;
         }
 
-        // Define authentication part
-        // if (credential) {
-        //     let username = credential.getUsername();
-        //     if (username) config.user = username;
+        // Define in-memory database
+        if (config.database == ":memory:") config.mode = "memory";
+        if (config.mode == "memory" && !config.database) config.database = ":memory:";
+        config.mode = config.mode || "rwc";
 
-        //     let password = credential.getPassword();
-        //     if (password) config.password = password;
-        // }
+        // Define encryption part
+        if (credential) {
+            let password = credential.getPassword();
+            if (password) config.key = password;
+        }
 
         return config;
     }
@@ -0,0 +1,17 @@
+/** @module persistence */
+import { SqliteChangeEvent } from './SqliteChangeEvent';
+
+/**
+ * Interface for components that listen to changes made by [[SqlitePersistence]].
+ *
+ * @see [[SqlitePersistence.addChangeListener]]
+ */
+export interface ISqliteChangeListener<T> {
+    /**
+     * Notifies the listener about a change.
+     *
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param event             the change event.
+     */
+    onChange(correlationId: string, event: SqliteChangeEvent<T>): void;
+}
@@ -0,0 +1,73 @@
+/** @module persistence */
+
+import { TypeCode } from 'pip-services3-commons-node';
+
+/**
+ * Declarative specification of a table column used by [[SqlitePersistence.ensureColumns]]
+ * to generate the table schema and to convert column values between public and internal formats.
+ *
+ * ### Example ###
+ *
+ *     this.ensureColumns([
+ *         { name: "id", type: "VARCHAR(32)", primaryKey: true },
+ *         { name: "name", type: "VARCHAR(100)", nullable: false, unique: true },
+ *         { name: "active", dataType: TypeCode.Boolean, default: true },
+ *         { name: "rating", dataType: TypeCode.Integer, check: '"rating" BETWEEN 0 AND 5', index: true },
+ *         { name: "owner_id", type: "VARCHAR(32)", references: { table: "owners", onDelete: "CASCADE" } },
+ *         { name: "created", dataType: TypeCode.DateTime },
+ *         { name: "tags", dataType: TypeCode.Array }
+ *     ]);
+ */
+export interface ISqliteColumn {
+    /**
+     * The name of the column.
+     */
+    name: string;
+    /**
+     * The SQL type of the column that defines its type affinity, e.g. TEXT, INTEGER, REAL or VARCHAR(50).
+     * When it is not set the type is derived from the data type.
+     */
+    type?: string;
+    /**
+     * The type of the public values. Booleans are stored as 0 and 1, dates as ISO strings,
+     * objects, arrays and maps as JSON text. Other values are stored as they are.
+     */
+    dataType?: TypeCode;
+    /**
+     * The flag that allows null values (default: true).
+     */
+    nullable?: boolean;
+    /**
+     * The default value in public format.
+     */
+    default?: any;
+    /**
+     * The flag to include the column into the primary key.
+     */
+    primaryKey?: boolean;
+    /**
+     * The flag to add a unique constraint.
+     */
+    unique?: boolean;
+    /**
+     * The flag to create an index on the column.
+     */
+    index?: boolean;
+    /**
+     * The check constraint expression.
+     */
+    check?: string;
+    /**
+     * The foreign key that references a column of another table.
+     */
+    references?: {
+        /** The name of the referenced table. */
+        table: string,
+        /** The name of the referenced column (default: id). */
+        column?: string,
+        /** The action on deletion of the referenced row, e.g. CASCADE or SET NULL. */
+        onDelete?: string,
+        /** The action on update of the referenced row. */
+        onUpdate?: string
+    };
+}
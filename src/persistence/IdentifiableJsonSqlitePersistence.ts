@@ -5,15 +5,21 @@ const _ = require('lodash');
 import { AnyValueMap } from 'pip-services3-commons-node';
 import { IIdentifiable } from 'pip-services3-commons-node';
 import { IdGenerator } from 'pip-services3-commons-node';
+import { BadRequestException } from 'pip-services3-commons-node';
 
 import { IdentifiableSqlitePersistence } from './IdentifiableSqlitePersistence';
+import { SqliteFilter } from './SqliteFilter';
+import { SqliteChangeEvent } from './SqliteChangeEvent';
+import { SqliteJsonUpdate } from './SqliteJsonUpdate';
 
 /**
  * Abstract persistence component that stores data in SQLite in JSON or JSONB fields
  * and implements a number of CRUD operations over data items with unique ids.
  * The data items must implement [[https://pip-services3-node.github.io/pip-services3-commons-node/interfaces/data.iidentifiable.html IIdentifiable]] interface.
  * 
- * The JSON table has only two fields: id and data.
+ * The JSON table has only two fields: id and data. Selected document fields can be
+ * extracted into generated columns with [[ensureJsonColumn]] and indexed with [[ensureJsonIndex]].
+ * Filters shall compose field expressions with [[composeField]] to use them.
  * 
  * In basic scenarios child classes shall only override [[getPageByFilter]],
  * [[getListByFilter]] or [[deleteByFilter]] operations with specific filter function.
@@ -29,6 +35,12 @@ import { IdentifiableSqlitePersistence } from './IdentifiableSqlitePersistence';
  *   - discovery_key:             (optional) a key to retrieve the connection from [[https://pip-services3-node.github.io/pip-services3-components-node/interfaces/connect.idiscovery.html IDiscovery]]
  *   - database:                  database file path
  *   - uri:                       resource URI with file:// protocol
+ * - options:
+ *   - version_field:             (optional) name of the field with item version for optimistic concurrency control
+ *   - create_time_field:         (optional) name of the field stamped with creation time
+ *   - update_time_field:         (optional) name of the field stamped with the last change time
+ *   - created_by_field:          (optional) name of the field stamped with the actor who created an item
+ *   - updated_by_field:          (optional) name of the field stamped with the actor who last changed an item
  * 
  * ### References ###
  * 
@@ -44,13 +56,13 @@ import { IdentifiableSqlitePersistence } from './IdentifiableSqlitePersistence';
  *         super("mydata");
  *     }
  * 
- *     private composeFilter(filter: FilterParams): any {
+ *     private composeFilter(filter: FilterParams): SqliteFilter {
  *         filter = filter || new FilterParams();
- *         let criteria = [];
+ *         let result = new SqliteFilter();
  *         let name = filter.getAsNullableString('name');
  *         if (name != null)
- *             criteria.push("JSON_EXTRACT(data,'$.name')='" + name + "'");
- *         return criteria.length > 0 ? criteria.join(" AND ") : null;
+ *             result.append(this.composeField("name") + "=?", name);
+ *         return result;
  *     }
  * 
  *     public getPageByFilter(correlationId: string, filter: FilterParams, paging: PagingParams,
@@ -85,6 +97,8 @@ import { IdentifiableSqlitePersistence } from './IdentifiableSqlitePersistence';
  *     });
  */
 export class IdentifiableJsonSqlitePersistence<T extends IIdentifiable<K>, K> extends IdentifiableSqlitePersistence<T, K> {
+    private _jsonColumns: { field: string, name: string, definition: string }[] = [];
+
     /**
      * Creates a new instance of the persistence component.
      * 
@@ -95,17 +109,86 @@ export class IdentifiableJsonSqlitePersistence<T extends IIdentifiable<K>, K> ex
     }
 
     /**
-     * Adds DML statement to automatically create JSON(B) table
+     * Adds DML statement to automatically create JSON(B) table.
+     * In soft delete mode the table also gets a column for the deletion time.
+     * Generated columns declared by [[ensureJsonColumn]] are added to the table as well.
      * 
      * @param idType type of the id column (default: VARCHAR(32))
      * @param dataType type of the data column (default: JSON)
      */
     protected ensureTable(idType: string = 'VARCHAR(32)', dataType: string = 'JSON') {
         let query = "CREATE TABLE IF NOT EXISTS " + this.quoteIdentifier(this._tableName)
-            + " (id " + idType + " PRIMARY KEY, data " + dataType + ")";
+            + " (id " + idType + " PRIMARY KEY, data " + dataType;
+        if (this._softDelete)
+            query += ", " + this.quoteIdentifier(this._deletedField) + " VARCHAR(30)";
+        for (let column of this._jsonColumns)
+            query += ", " + column.definition;
+        query += ")";
         this.autoCreateObject(query);
     }
 
+    /**
+     * Declares a generated column that keeps a value of the document field.
+     * Sorts, projections and filters composed by [[composeField]] use the column instead of
+     * extracting the field from the document, and indexes on the field are built over the column.
+     * 
+     * Generated columns are created by [[ensureTable]], so this method shall be called before it.
+     * To add a virtual column to an existing table use <code>ALTER TABLE ... ADD COLUMN</code>
+     * in a migration with the definition returned by this method.
+     * 
+     * @param field     a name of the document field. Nested fields use dotted notation.
+     * @param options   (optional) column options:
+     *                  - name: a name of the column (default: the field name with dots replaced by underscores)
+     *                  - type: a type of the column (default: none to keep JSON value types)
+     *                  - stored: true to store the values in the table instead of computing them on read (default: false)
+     * @returns the column definition.
+     */
+    protected ensureJsonColumn(field: string, options?: any): string {
+        options = options || {};
+        this._jsonColumns = _.filter(this._jsonColumns, (column) => column.field != field);
+
+        let expression = this.composeField(field);
+        let name = options.name || field.replace(/\./g, "_");
+        let definition = this.quoteIdentifier(name)
+            + (options.type ? " " + options.type : "")
+            + " GENERATED ALWAYS AS (" + expression + ")"
+            + (options.stored ? " STORED" : " VIRTUAL");
+
+        this._jsonColumns.push({ field: field, name: name, definition: definition });
+
+        return definition;
+    }
+
+    /**
+     * Adds definition of an index over document fields to create it on opening.
+     * Fields with generated columns declared by [[ensureJsonColumn]] are indexed by the columns,
+     * other fields by <code>JSON_EXTRACT(data,'$.field')</code> expressions.
+     * Filters and sorts composed by [[composeField]] use the same expressions, so they are able to use the index.
+     * 
+     * @param name      a name of the index.
+     * @param keys      index keys as a map of field names to sort direction (true for ascending).
+     * @param options   (optional) index options: unique to create a unique index.
+     */
+    protected ensureJsonIndex(name: string, keys: any, options?: any): void {
+        options = options || {};
+
+        let fields = _.map(_.keys(keys), (field) => this.composeField(field) + (keys[field] ? "" : " DESC"));
+        let query = "CREATE" + (options.unique ? " UNIQUE" : "")
+            + " INDEX IF NOT EXISTS " + this.quoteIdentifier(name)
+            + " ON " + this.quoteIdentifier(this._tableName)
+            + " (" + fields.join(", ") + ")";
+
+        this.ensureSchema(query);
+    }
+
+    /**
+     * Clears all auto-created objects and declared generated columns.
+     */
+    protected clearSchema(): void {
+        super.clearSchema();
+        this._jsonColumns = [];
+    }
+
     /** 
      * Converts object value from internal to public format.
      * 
@@ -132,13 +215,183 @@ export class IdentifiableJsonSqlitePersistence<T extends IIdentifiable<K>, K> ex
         return result;
     }    
 
+    /**
+     * Composes SQL expression for a sort, projection or filter field.
+     * The id field maps to the id column. Fields with generated columns declared by
+     * [[ensureJsonColumn]] map to the columns, and other fields, including nested ones
+     * in dotted notation, map to <code>JSON_EXTRACT(data,'$.field')</code> expressions.
+     * 
+     * @param field     a name of the field.
+     * @returns a SQL expression for the field.
+     * @throws BadRequestException with INVALID_FIELD code when the field is not valid.
+     */
+    protected composeField(field: string): string {
+        if (field == "id") return "id";
+
+        let column = _.find(this._jsonColumns, (column) => column.field == field);
+        if (column != null) return this.quoteIdentifier(column.name);
+
+        return "JSON_EXTRACT(data," + this.composePath(field) + ")";
+    }
+
+    /**
+     * Composes a JSON path literal for a document field.
+     * 
+     * @param field     a name of the field in dotted notation.
+     * @returns a quoted JSON path like <code>'$.field'</code>.
+     * @throws BadRequestException with INVALID_FIELD code when the field is not valid.
+     */
+    protected composePath(field: string): string {
+        if (field == null || !/^[A-Za-z_$][A-Za-z0-9_$]*(\.[A-Za-z_$][A-Za-z0-9_$]*)*$/.test(field)) {
+            throw new BadRequestException(
+                null,
+                "INVALID_FIELD",
+                "Field " + field + " is not a valid JSON field"
+            ).withDetails("field", field);
+        }
+
+        return "'$." + field + "'";
+    }
+
+    /**
+     * Composes an expression that applies update operations to the data column.
+     * Each operation reads field values of the stored document, so a field
+     * can be changed by a single operation only.
+     * 
+     * @param update    update operations to apply.
+     * @returns a composed expression and values for its parameters.
+     * @throws BadRequestException with INVALID_FIELD code when a field is not valid,
+     * CONFLICTING_UPDATE code when a field is changed by several operations
+     * or INVALID_AMOUNT code when an increment is not a number.
+     */
+    protected composeDocumentUpdate(update: SqliteJsonUpdate): { expression: string, params: any[] } {
+        let expression = "data";
+        let params = [];
+        let paths: string[] = [];
+
+        for (let operation of update.operations) {
+            let path = this.composePath(operation.path);
+
+            if (operation.path == "id" || _.some(paths, (other) => other == operation.path
+                || _.startsWith(other, operation.path + ".") || _.startsWith(operation.path, other + "."))) {
+                throw new BadRequestException(
+                    null,
+                    "CONFLICTING_UPDATE",
+                    "Field " + operation.path + " cannot be updated"
+                ).withDetails("field", operation.path);
+            }
+            paths.push(operation.path);
+
+            let values = _.map(operation.values, (value) => JSON.stringify(value !== undefined ? value : null));
+
+            if (operation.type == SqliteJsonUpdate.Set) {
+                expression = "JSON_SET(" + expression + "," + path + ",JSON(?))";
+                params.push(...values);
+            } else if (operation.type == SqliteJsonUpdate.Unset) {
+                expression = "JSON_REMOVE(" + expression + "," + path + ")";
+            } else if (operation.type == SqliteJsonUpdate.Inc) {
+                let amount = operation.values[0];
+                if (!_.isNumber(amount) || !_.isFinite(amount)) {
+                    throw new BadRequestException(
+                        null,
+                        "INVALID_AMOUNT",
+                        "Field " + operation.path + " cannot be incremented by " + amount
+                    ).withDetails("field", operation.path).withDetails("amount", amount);
+                }
+
+                expression = "JSON_SET(" + expression + "," + path + ",COALESCE(JSON_EXTRACT(data," + path + "),0)+?)";
+                params.push(operation.values[0]);
+            } else if (operation.type == SqliteJsonUpdate.Push) {
+                let inserts = _.map(values, () => ",'$[#]',JSON(?)").join("");
+                expression = "JSON_SET(" + expression + "," + path + ",JSON_INSERT(COALESCE(JSON_EXTRACT(data,"
+                    + path + "),JSON('[]'))" + inserts + "))";
+                params.push(...values);
+            } else if (operation.type == SqliteJsonUpdate.Pull) {
+                // Elements are compared by their minified JSON text
+                let element = "JSON(CASE type WHEN 'true' THEN 'true' WHEN 'false' THEN 'false' WHEN 'null' THEN 'null'"
+                    + " WHEN 'object' THEN value WHEN 'array' THEN value ELSE JSON_QUOTE(value) END)";
+                let excluded = _.map(values, () => "JSON(?)").join(",");
+                expression = "JSON_REPLACE(" + expression + "," + path + ",(SELECT JSON_GROUP_ARRAY(JSON(element))"
+                    + " FROM (SELECT " + element + " AS element FROM JSON_EACH(data," + path + ") ORDER BY key)"
+                    + " WHERE element NOT IN (" + excluded + ")))";
+                params.push(...values);
+            }
+        }
+
+        return { expression: expression, params: params };
+    }
+
+    /**
+     * Composes SQL expression for a field of a table row referenced by the alias.
+     * Fields map to the JSON document in the data column of the row the same way as in [[composeField]].
+     *
+     * @param row       an alias of the table row.
+     * @param field     a name of the field.
+     * @returns a SQL expression for the field of the row.
+     * @throws BadRequestException with INVALID_FIELD code when the field is not valid.
+     */
+    protected composeRowField(row: string, field: string): string {
+        // Validates the field name
+        this.composeField(field);
+
+        if (field == "id") return row + ".id";
+        return "JSON_EXTRACT(" + row + ".data," + this.composePath(field) + ")";
+    }
+
+    /**
+     * Composes SET assignments that write the data column of an existing row.
+     * Creation fields keep their stored values inside of the document, the version is incremented
+     * when versioning is enabled, and the deletion mark is cleared in soft delete mode.
+     * 
+     * @param keys      names of the written columns.
+     * @param source    a function that returns SQL expression for a new value of the column.
+     * @returns composed assignments.
+     */
+    protected composeSetAssignments(keys: string[], source: (key: string) => string): string {
+        let data = source("data");
+
+        // Missing creation fields are removed by JSON_PATCH as null values
+        let creationFields = this.getCreationFields();
+        if (creationFields.length > 0) {
+            let fields = _.map(creationFields, (field) => "'" + field + "',JSON_EXTRACT(data,'$." + field + "')");
+            data = "JSON_PATCH(" + data + ",JSON_OBJECT(" + fields.join(",") + "))";
+        }
+
+        if (this._versionField != null) {
+            let path = "'$." + this._versionField + "'";
+            data = "JSON_SET(" + data + "," + path + ",COALESCE(JSON_EXTRACT(data," + path + "),0)+1)";
+        }
+
+        let result = "data=" + data;
+        if (this._softDelete)
+            result += "," + this.quoteIdentifier(this._deletedField) + "=NULL";
+        return result;
+    }
+
+    /**
+     * Composes a list of selected columns from projection parameters.
+     * Selected fields are packed back into the data column, so projected items
+     * are converted to public format as usual. Nested fields keep their dotted names.
+     * 
+     * @param select    projection parameters.
+     * @returns a composed list of columns or "*" to select all columns.
+     * @throws BadRequestException with INVALID_FIELD code when a projection field is not valid.
+     */
+    protected composeSelect(select: any): string {
+        if (select == null || _.isEmpty(select) || _.isString(select))
+            return super.composeSelect(select);
+
+        let fields = _.map(select, (field) => "'" + field + "'," + this.composeField(field));
+        return "id, JSON_OBJECT(" + fields.join(",") + ") AS data";
+    }
+
     /**
      * Updates only few selected fields in a data item.
      * 
      * @param correlation_id    (optional) transaction id to trace execution through call chain.
      * @param id                an id of data item to be updated.
      * @param data              a map with fields to be updated.
-     * @param callback          callback function that receives updated item or error.
+     * @param callback          callback function that receives updated item, null if it was not found, or error.
      */
     public updatePartially(correlationId: string, id: K, data: AnyValueMap,
         callback?: (err: any, item: T) => void): void {
@@ -148,26 +401,131 @@ export class IdentifiableJsonSqlitePersistence<T extends IIdentifiable<K>, K> ex
             return;
         }
 
-        // let row = this.convertFromPublicPartial(data.getAsObject());
-        let values = [JSON.stringify(data.getAsObject()), id];
+        let partial = data.getAsObject();
+        let version = this._versionField != null ? partial[this._versionField] : null;
+        if (this._versionField != null)
+            delete partial[this._versionField];
+        partial = this.stampUpdatedItem(correlationId, _.omit(partial, this.getCreationFields()));
+
+        let values = [JSON.stringify(partial)];
+        let set = this.composeSetAssignments(["data"], (key) => "JSON_PATCH(data,?)");
 
-        let query = "UPDATE " + this.quoteIdentifier(this._tableName) + " SET data=JSON_PATCH(data,?) WHERE id=?";
+        let filter = this.composeActiveFilter(new SqliteFilter("id=?", [id]));
+        if (version != null)
+            filter.append(this.composeField(this._versionField) + "=?", version);
+        values.push(...filter.params);
 
-        this._client.serialize(() => {
-            this._client.run(query, values, (err, result) => {
-                if (!err)
-                    this._logger.trace(correlationId, "Updated partially in %s with id = %s", this._tableName, id);
+        let query = "UPDATE " + this.quoteIdentifier(this._tableName) + " SET " + set + " WHERE " + filter.condition;
 
-                let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName) + " WHERE id=?";
-                this._client.get(query, [id], (err, result) => {
-                    err = err || null;
-                    result = result || null;
-        
-                    let newItem = result ? this.convertToPublic(result) : null;
-        
-                    if (callback) callback(err, newItem);
+        let select = (result) => new SqliteFilter("id=?", [id]);
+
+        let write = (callback) => this.executeReturning(correlationId, query, values, select, callback);
+
+        this.readBeforeWrite(correlationId, filter, write, (err, oldItems, result) => {
+            if (err) {
+                if (callback) callback(err, null);
+                return;
+            }
+
+            if (result == null) {
+                this.checkVersionConflict(correlationId, id, version, (err) => {
+                    if (err == null)
+                        this._logger.trace(correlationId, "Nothing updated in %s with id = %s", this._tableName, id);
+                    if (callback) callback(err, null);
                 });
-            });    
+                return;
+            }
+
+            this._logger.trace(correlationId, "Updated partially in %s with id = %s", this._tableName, id);
+
+            let newItem = this.convertToPublic(result);
+            this.notifyChange(correlationId, SqliteChangeEvent.Updated, id, oldItems ? oldItems[0] : null, newItem);
+
+            if (callback) callback(null, newItem);
+        });
+    }
+
+    /**
+     * Updates fields of a document with set, unset, inc, push and pull operations.
+     * All operations are applied to the stored document in a single statement.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param id                an id of data item to be updated.
+     * @param update            a [[SqliteJsonUpdate]] or an object with operations. See [[SqliteJsonUpdate.fromValue]]
+     * @param callback          callback function that receives updated item, null if it was not found, or error.
+     */
+    public updateDocument(correlationId: string, id: K, update: any,
+        callback?: (err: any, item: T) => void): void {
+
+        update = SqliteJsonUpdate.fromValue(update);
+        if (id == null || update.isEmpty()) {
+            if (callback) callback(null, null);
+            return;
+        }
+
+        let data: { expression: string, params: any[] };
+        try {
+            data = this.composeDocumentUpdate(update);
+        } catch (ex) {
+            if (callback) callback(ex.withCorrelationId ? ex.withCorrelationId(correlationId) : ex, null);
+            return;
+        }
+
+        let values = data.params;
+        let expression = data.expression;
+
+        let stamp = this.stampUpdatedItem(correlationId, {});
+        if (!_.isEmpty(stamp)) {
+            expression = "JSON_PATCH(" + expression + ",?)";
+            values.push(JSON.stringify(stamp));
+        }
+
+        let set = this.composeSetAssignments(["data"], (key) => expression);
+
+        let filter = this.composeActiveFilter(new SqliteFilter("id=?", [id]));
+        values.push(...filter.params);
+
+        let query = "UPDATE " + this.quoteIdentifier(this._tableName) + " SET " + set + " WHERE " + filter.condition;
+
+        let select = (result) => new SqliteFilter("id=?", [id]);
+
+        let write = (callback) => this.executeReturning(correlationId, query, values, select, callback);
+
+        this.readBeforeWrite(correlationId, filter, write, (err, oldItems, result) => {
+            if (err) {
+                if (callback) callback(err, null);
+                return;
+            }
+
+            if (result == null) {
+                this._logger.trace(correlationId, "Nothing updated in %s with id = %s", this._tableName, id);
+                if (callback) callback(null, null);
+                return;
+            }
+
+            this._logger.trace(correlationId, "Updated document in %s with id = %s", this._tableName, id);
+
+            let newItem = this.convertToPublic(result);
+            this.notifyChange(correlationId, SqliteChangeEvent.Updated, id, oldItems ? oldItems[0] : null, newItem);
+
+            if (callback) callback(null, newItem);
+        });
+    }
+
+    /**
+     * Updates fields of a document with set, unset, inc, push and pull operations and returns a promise.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param id                an id of data item to be updated.
+     * @param update            a [[SqliteJsonUpdate]] or an object with operations. See [[SqliteJsonUpdate.fromValue]]
+     * @returns a promise that receives updated item or null if it was not found.
+     */
+    public updateDocumentAsync(correlationId: string, id: K, update: any): Promise<T> {
+        return new Promise((resolve, reject) => {
+            this.updateDocument(correlationId, id, update, (err, item) => {
+                if (err) reject(err);
+                else resolve(item);
+            });
         });
     }
 
@@ -1,16 +1,24 @@
 /** @module persistence */
 /** @hidden */
 const _ = require('lodash');
+const async = require('async');
 
 import { AnyValueMap } from 'pip-services3-commons-node';
+import { ConfigParams } from 'pip-services3-commons-node';
 import { IIdentifiable } from 'pip-services3-commons-node';
 import { IdGenerator } from 'pip-services3-commons-node';
+import { BadRequestException } from 'pip-services3-commons-node';
+import { ConflictException } from 'pip-services3-commons-node';
 
 import { IWriter } from 'pip-services3-data-node';
 import { IGetter } from 'pip-services3-data-node';
 import { ISetter } from 'pip-services3-data-node';
 
 import { SqlitePersistence } from './SqlitePersistence';
+import { SqliteBatchResult } from './SqliteBatchResult';
+import { SqliteFilter } from './SqliteFilter';
+import { SqliteCursorPage } from './SqliteCursorPage';
+import { SqliteChangeEvent } from './SqliteChangeEvent';
 
 /**
  * Abstract persistence component that stores data in SQLite
@@ -31,6 +39,12 @@ import { SqlitePersistence } from './SqlitePersistence';
  *   - discovery_key:             (optional) a key to retrieve the connection from [[https://pip-services3-node.github.io/pip-services3-components-node/interfaces/connect.idiscovery.html IDiscovery]]
  *   - database:                  database file path
  *   - uri:                       resource URI with file:// protocol
+ * - options:
+ *   - version_field:             (optional) name of the field with item version for optimistic concurrency control
+ *   - create_time_field:         (optional) name of the field stamped with creation time
+ *   - update_time_field:         (optional) name of the field stamped with the last change time
+ *   - created_by_field:          (optional) name of the field stamped with the actor who created an item
+ *   - updated_by_field:          (optional) name of the field stamped with the actor who last changed an item
  * 
  * ### References ###
  * 
@@ -46,13 +60,13 @@ import { SqlitePersistence } from './SqlitePersistence';
  *         super("mydata");
  *     }
  * 
- *     private composeFilter(filter: FilterParams): any {
+ *     private composeFilter(filter: FilterParams): SqliteFilter {
  *         filter = filter || new FilterParams();
- *         let criteria = [];
+ *         let result = new SqliteFilter();
  *         let name = filter.getAsNullableString('name');
  *         if (name != null)
- *             criteria.push("name='" + name + "'");
- *         return criteria.length > 0 ? criteria.join(" AND ") : null;
+ *             result.append("name=?", name);
+ *         return result;
  *     }
  * 
  *     public getPageByFilter(correlationId: string, filter: FilterParams, paging: PagingParams,
@@ -89,6 +103,43 @@ import { SqlitePersistence } from './SqlitePersistence';
 export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extends SqlitePersistence<T>
     implements IWriter<T, K>, IGetter<T, K>, ISetter<T> {
 
+    /**
+     * The maximum number of bound variables in a single batch statement.
+     * SQLite builds before 3.32 limit it to 999.
+     */
+    protected _maxBatchVariables: number = 999;
+
+    /**
+     * The name of the field that keeps version of data items for optimistic concurrency control.
+     * It is disabled by default. When it is set, every write increments the version,
+     * and [[update]], [[set]] and [[updatePartially]] fail with ConflictException
+     * when the version of the passed item doesn't match the stored one.
+     * Items without version are written without the check.
+     */
+    protected _versionField: string = null;
+    /**
+     * The name of the field that keeps the time when a data item was created.
+     * It is set on create and never overwritten by updates.
+     */
+    protected _createTimeField: string = null;
+    /**
+     * The name of the field that keeps the time when a data item was last changed.
+     */
+    protected _updateTimeField: string = null;
+    /**
+     * The name of the field that keeps the actor who created a data item.
+     * It is set on create and never overwritten by updates.
+     */
+    protected _createdByField: string = null;
+    /**
+     * The name of the field that keeps the actor who last changed a data item.
+     */
+    protected _updatedByField: string = null;
+
+    private _actorProvider: (correlationId: string) => string = null;
+
+    private static readonly _cursorKeyColumn: string = "__cursor_key";
+
     /**
      * Creates a new instance of the persistence component.
      * 
@@ -101,6 +152,41 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
             throw new Error("Table name could not be null");
     }
 
+    /**
+     * Configures component by passing configuration parameters.
+     * 
+     * @param config    configuration parameters to be set.
+     */
+    public configure(config: ConfigParams): void {
+        super.configure(config);
+
+        this._versionField = config.getAsStringWithDefault("options.version_field", this._versionField);
+        this._createTimeField = config.getAsStringWithDefault("options.create_time_field", this._createTimeField);
+        this._updateTimeField = config.getAsStringWithDefault("options.update_time_field", this._updateTimeField);
+        this._createdByField = config.getAsStringWithDefault("options.created_by_field", this._createdByField);
+        this._updatedByField = config.getAsStringWithDefault("options.updated_by_field", this._updatedByField);
+    }
+
+    /**
+     * Sets a function that returns the actor (user or service) performing a write.
+     * It is used to fill created_by and updated_by fields.
+     * 
+     * @param provider  a function that receives correlation id and returns the current actor or null.
+     */
+    public setActorProvider(provider: (correlationId: string) => string): void {
+        this._actorProvider = provider;
+    }
+
+    /**
+     * Gets the actor performing a write from the actor provider.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @returns the current actor or null if it is unknown.
+     */
+    protected getActor(correlationId: string): string {
+        return this._actorProvider != null ? this._actorProvider(correlationId) : null;
+    }
+
     /** 
      * Converts the given object from the public partial format.
      * 
@@ -110,6 +196,137 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
     protected convertFromPublicPartial(value: any): any {
         return this.convertFromPublic(value);
     }    
+
+    /**
+     * Gets the fields that are set on create and kept by updates.
+     * 
+     * @returns a list of configured creation fields.
+     */
+    protected getCreationFields(): string[] {
+        return _.compact([this._createTimeField, this._createdByField]);
+    }
+
+    /**
+     * Composes SET assignments that write the given columns of an existing row.
+     * Creation fields keep their stored values, the version is incremented when versioning is enabled,
+     * and the deletion mark is cleared in soft delete mode.
+     * 
+     * @param keys      names of the written columns.
+     * @param source    a function that returns SQL expression for a new value of the column.
+     * @returns composed assignments.
+     */
+    protected composeSetAssignments(keys: string[], source: (key: string) => string): string {
+        let skipped = this.getCreationFields();
+        if (this._versionField != null)
+            skipped.push(this._versionField);
+
+        let result = _.map(_.difference(keys, skipped), (key) => this.quoteIdentifier(key) + "=" + source(key));
+
+        if (this._versionField != null) {
+            let version = this.quoteIdentifier(this._versionField);
+            result.push(version + "=COALESCE(" + version + ",0)+1");
+        }
+
+        // Written items become active again
+        if (this._softDelete)
+            result.push(this.quoteIdentifier(this._deletedField) + "=NULL");
+
+        return result.join(",");
+    }
+
+    /**
+     * Composes SET assignments for an update of the given row.
+     * 
+     * @param row       a row in internal format.
+     * @returns composed assignments and values for their parameters.
+     * 
+     * @see [[composeSetAssignments]]
+     */
+    protected composeUpdateSet(row: any): { set: string, values: any[] } {
+        let values = [];
+        let set = this.composeSetAssignments(_.keys(row), (key) => {
+            values.push(row[key]);
+            return "?";
+        });
+        return { set: set, values: values };
+    }
+
+    /**
+     * Stamps a new item with the initial version, creation and update times and actors
+     * when they are enabled.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param item              an item to be created.
+     * @returns a stamped copy of the item.
+     */
+    protected stampNewItem(correlationId: string, item: T): T {
+        return this.stampItem(correlationId, item, true);
+    }
+
+    /**
+     * Stamps a changed item with the update time and actor when they are enabled.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param item              a full or partial item to be updated.
+     * @returns a stamped copy of the item.
+     */
+    protected stampUpdatedItem(correlationId: string, item: any): any {
+        return this.stampItem(correlationId, item, false);
+    }
+
+    private stampItem(correlationId: string, item: any, created: boolean): any {
+        if (item == null) return item;
+
+        let now = new Date().toISOString();
+        let actor = this._createdByField != null || this._updatedByField != null ? this.getActor(correlationId) : null;
+        item = _.clone(item);
+
+        if (created && this._versionField != null)
+            item[this._versionField] = 1;
+        if (created && this._createTimeField != null)
+            item[this._createTimeField] = now;
+        if (created && this._createdByField != null)
+            item[this._createdByField] = actor;
+        if (this._updateTimeField != null)
+            item[this._updateTimeField] = now;
+        if (this._updatedByField != null)
+            item[this._updatedByField] = actor;
+
+        return item;
+    }
+
+    /**
+     * Checks if a failed versioned update was caused by a concurrent change.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param id                an id of the updated item.
+     * @param version           an expected version of the item or null if it wasn't checked.
+     * @param callback          callback function that receives ConflictException if the item exists,
+     *                          or null if it was not found.
+     */
+    protected checkVersionConflict(correlationId: string, id: K, version: any, callback: (err: any) => void): void {
+        if (version == null) {
+            callback(null);
+            return;
+        }
+
+        let filter = this.composeActiveFilter(new SqliteFilter("id=?", [id]));
+        let query = "SELECT " + this.composeField(this._versionField) + " AS version FROM "
+            + this.quoteIdentifier(this._tableName) + " WHERE " + filter.condition;
+        this.executeStatement(correlationId, "get", query, filter.params, (err, result) => {
+            if (err || result == null) {
+                callback(err || null);
+                return;
+            }
+
+            err = new ConflictException(
+                correlationId,
+                "VERSION_CONFLICT",
+                "Item " + id + " in " + this._tableName + " was changed by another writer"
+            ).withDetails("id", id).withDetails("expected_version", version).withDetails("version", result.version);
+            callback(err);
+        });
+    }
     
     /**
      * Gets a list of data items retrieved by given unique ids.
@@ -122,9 +339,10 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
         callback: (err: any, items: T[]) => void): void {
 
         let params = this.generateParameters(ids);
-        let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName) + " WHERE id IN(" + params + ")";
+        let filter = this.composeActiveFilter(new SqliteFilter("id IN(" + params + ")", ids));
+        let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName) + " WHERE " + filter.condition;
 
-        this._client.all(query, ids, (err, result) => {
+        this.executeStatement(correlationId, "all", query, filter.params, (err, result) => {
             err = err || null;
             if (err) {
                 callback(err, null);
@@ -136,11 +354,27 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
             if (items != null)
                 this._logger.trace(correlationId, "Retrieved %d from %s", items.length, this._tableName);
                 
-            items = _.map(items, this.convertToPublic);
+            items = _.map(items, (item) => this.convertToPublic(item));
             callback(null, items);
         });
     }
 
+    /**
+     * Gets a list of data items retrieved by given unique ids and returns it as a promise.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param ids               ids of data items to be retrieved
+     * @returns a promise that receives a data list.
+     */
+    public getListByIdsAsync(correlationId: string, ids: K[]): Promise<T[]> {
+        return new Promise((resolve, reject) => {
+            this.getListByIds(correlationId, ids, (err, items) => {
+                if (err) reject(err);
+                else resolve(items);
+            });
+        });
+    }
+
     /**
      * Gets a data item by its unique id.
      * 
@@ -149,10 +383,10 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
      * @param callback          callback function that receives data item or error.
      */
     public getOneById(correlationId: string, id: K, callback: (err: any, item: T) => void): void {
-        let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName) + " WHERE id=?";
-        let params = [ id ];
+        let filter = this.composeActiveFilter(new SqliteFilter("id=?", [ id ]));
+        let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName) + " WHERE " + filter.condition;
 
-        this._client.get(query, params, (err, result) => {
+        this.executeStatement(correlationId, "get", query, filter.params, (err, result) => {
             err = err || null;
 
             let item = result || null; 
@@ -167,6 +401,188 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
         });
     }
 
+    /**
+     * Gets a data item by its unique id and returns it as a promise.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param id                an id of data item to be retrieved.
+     * @returns a promise that receives a data item or null if it was not found.
+     */
+    public getOneByIdAsync(correlationId: string, id: K): Promise<T> {
+        return new Promise((resolve, reject) => {
+            this.getOneById(correlationId, id, (err, item) => {
+                if (err) reject(err);
+                else resolve(item);
+            });
+        });
+    }
+
+    /**
+     * Gets a page of data items using keyset (cursor) pagination.
+     * 
+     * Items are ordered by the sort key and then by id. Instead of skipping rows the next page
+     * is selected by the sort key and id of the last retrieved item, so deep pages are as fast as the first one
+     * when there is an index over the sort key. No total count is calculated.
+     * 
+     * This method shall be called by a public method from child class that
+     * receives FilterParams and converts them into a filter function.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param filter            (optional) a filter condition string or SqliteFilter with bound parameters
+     * @param cursor            (optional) a continuation token returned with the previous page. Null for the first page.
+     * @param take              (optional) a maximum number of items to return.
+     * @param sortKey           (optional) a column or SQL expression to sort by. When it is not set items are sorted by id only.
+     * @param descending        (optional) true to sort in descending order.
+     * @param callback          callback function that receives a cursor page or error.
+     */
+    protected getCursorPageByFilter(correlationId: string, filter: any, cursor: string, take: number,
+        sortKey: string, descending: boolean, callback: (err: any, page: SqliteCursorPage<T>) => void): void {
+
+        filter = this.composeActiveFilter(filter);
+        take = take != null && take > 0 ? Math.min(take, this._maxPageSize) : this._maxPageSize;
+
+        let after: any[] = null;
+        if (cursor != null && cursor != "") {
+            after = this.decodeCursor(cursor, sortKey != null);
+            if (after == null) {
+                let err = new BadRequestException(
+                    correlationId,
+                    "INVALID_CURSOR",
+                    "Continuation token " + cursor + " is invalid"
+                ).withDetails("cursor", cursor);
+                callback(err, null);
+                return;
+            }
+        }
+
+        let condition = new SqliteFilter(filter.condition, filter.params.slice());
+        if (after != null) {
+            let position = this.composeCursorCondition(sortKey, descending, after);
+            condition.append(position.condition, ...position.params);
+        }
+
+        let direction = descending ? " DESC" : " ASC";
+        let query = "SELECT *";
+        if (sortKey != null)
+            query += ", " + sortKey + " AS " + this.quoteIdentifier(IdentifiableSqlitePersistence._cursorKeyColumn);
+        query += " FROM " + this.quoteIdentifier(this._tableName);
+        if (!condition.isEmpty())
+            query += " WHERE " + condition.condition;
+        query += " ORDER BY ";
+        if (sortKey != null)
+            query += sortKey + direction + ", ";
+        query += "id" + direction;
+
+        // Read one extra item to find out if there is a next page
+        query += " LIMIT " + (take + 1);
+
+        this.executeStatement(correlationId, "all", query, condition.params, (err, result) => {
+            err = err || null;
+            if (err) {
+                callback(err, null);
+                return;
+            }
+
+            let rows: any[] = result || [];
+            let hasNext = rows.length > take;
+            if (hasNext)
+                rows = rows.slice(0, take);
+
+            this._logger.trace(correlationId, "Retrieved %d from %s", rows.length, this._tableName);
+
+            let next: string = null;
+            if (hasNext) {
+                let last = rows[rows.length - 1];
+                next = this.encodeCursor(sortKey != null
+                    ? [last[IdentifiableSqlitePersistence._cursorKeyColumn], last.id]
+                    : [last.id]);
+            }
+
+            let items = _.map(rows, (row) => {
+                if (sortKey != null)
+                    delete row[IdentifiableSqlitePersistence._cursorKeyColumn];
+                return this.convertToPublic(row);
+            });
+
+            callback(null, new SqliteCursorPage<T>(items, next));
+        });
+    }
+
+    /**
+     * Gets a page of data items using keyset (cursor) pagination and returns it as a promise.
+     * 
+     * This method shall be called by a public method from child class.
+     * It always calls the base implementation, so child classes may override getCursorPageByFilter
+     * with a different signature.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param filter            (optional) a filter condition string or SqliteFilter with bound parameters
+     * @param cursor            (optional) a continuation token returned with the previous page. Null for the first page.
+     * @param take              (optional) a maximum number of items to return.
+     * @param sortKey           (optional) a column or SQL expression to sort by.
+     * @param descending        (optional) true to sort in descending order.
+     * @returns a promise that receives a cursor page.
+     */
+    protected getCursorPageByFilterAsync(correlationId: string, filter: any, cursor: string, take: number,
+        sortKey: string, descending: boolean): Promise<SqliteCursorPage<T>> {
+        return new Promise((resolve, reject) => {
+            IdentifiableSqlitePersistence.prototype.getCursorPageByFilter.call(this,
+                correlationId, filter, cursor, take, sortKey, descending,
+                (err, page) => {
+                    if (err) reject(err);
+                    else resolve(page);
+                }
+            );
+        });
+    }
+
+    private encodeCursor(values: any[]): string {
+        return Buffer.from(JSON.stringify(values)).toString("base64");
+    }
+
+    private decodeCursor(cursor: string, withSortKey: boolean): any[] {
+        let values: any;
+        try {
+            values = JSON.parse(Buffer.from(cursor, "base64").toString());
+        } catch (ex) {
+            return null;
+        }
+
+        if (!_.isArray(values) || values.length != (withSortKey ? 2 : 1))
+            return null;
+
+        // Cursors keep SQLite values: a sort key that can be null and a non-null id
+        let isValue = (value) => _.isString(value) || (_.isNumber(value) && _.isFinite(value));
+        let id = values[values.length - 1];
+        if (!isValue(id) || (withSortKey && values[0] != null && !isValue(values[0])))
+            return null;
+
+        return values;
+    }
+
+    /**
+     * Composes a condition that selects items following the cursor position.
+     * SQLite puts NULL values first in ascending order and last in descending order.
+     */
+    private composeCursorCondition(sortKey: string, descending: boolean, after: any[]): SqliteFilter {
+        let op = descending ? "<" : ">";
+
+        if (sortKey == null)
+            return new SqliteFilter("id" + op + "?", [after[0]]);
+
+        let [key, id] = after;
+        if (key == null) {
+            if (descending)
+                return new SqliteFilter(sortKey + " IS NULL AND id<?", [id]);
+            return new SqliteFilter("(" + sortKey + " IS NULL AND id>?) OR " + sortKey + " IS NOT NULL", [id]);
+        }
+
+        let condition = sortKey + op + "? OR (" + sortKey + "=? AND id" + op + "?)";
+        if (descending)
+            condition += " OR " + sortKey + " IS NULL";
+        return new SqliteFilter(condition, [key, key, id]);
+    }
+
     /**
      * Creates a data item.
      * 
@@ -186,6 +602,7 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
             newItem = _.clone(newItem);
             newItem.id = item.id || IdGenerator.nextLong();
         }
+        newItem = this.stampNewItem(correlationId, newItem);
 
         super.create(correlationId, newItem, callback);
     }
@@ -210,42 +627,301 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
             item.id = <any>IdGenerator.nextLong();
         }
 
-        let row = this.convertFromPublic(item);
+        let version = this._versionField != null ? item[this._versionField] : null;
+        let row = this.convertFromPublic(this.stampNewItem(correlationId, item));
         let columns = this.generateColumns(row);
         let params = this.generateParameters(row);
-        let setParams = this.generateSetParameters(row);
+        let update = this.composeUpdateSet(row);
         let values = this.generateValues(row);
-        values.push(...values);
+        values.push(...update.values);
 
         let query = "INSERT INTO " + this.quoteIdentifier(this._tableName) + " (" + columns + ") VALUES (" + params + ")";
-        query += " ON CONFLICT(id) DO UPDATE SET " + setParams;
+        query += " ON CONFLICT(id) DO UPDATE SET " + update.set;
 
-        this._client.serialize(() => {
-            this._client.run(query, values, (err, result) => {
-                err = err || null;
+        if (version != null) {
+            query += " WHERE " + this.composeField(this._versionField) + "=?";
+            values.push(version);
+        }
 
-                if (!err)
-                    this._logger.trace(correlationId, "Set in %s with id = %s", this.quoteIdentifier(this._tableName), item.id);
-                
-                let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName) + " WHERE id=?";
-                this._client.get(query, [item.id], (err, result) => {
-                    err = err || null;
-                    result = result || null;
-
-                    let newItem = result ? this.convertToPublic(result) : null;
-        
-                    if (callback) callback(err, newItem);
+        let select = (result) => new SqliteFilter("id=?", [item.id]);
+
+        let write = (callback) => this.executeReturning(correlationId, query, values, select, callback);
+
+        this.readBeforeWrite(correlationId, this.composeActiveFilter(new SqliteFilter("id=?", [item.id])), write, (err, oldItems, result) => {
+            if (err) {
+                if (callback) callback(err, null);
+                return;
+            }
+
+            // Existing item with a different version was not overwritten
+            if (result == null && version != null) {
+                this.checkVersionConflict(correlationId, item.id, version, (err) => {
+                    if (callback) callback(err, null);
                 });
+                return;
+            }
+
+            this._logger.trace(correlationId, "Set in %s with id = %s", this.quoteIdentifier(this._tableName), item.id);
+
+            let newItem = result ? this.convertToPublic(result) : null;
+            if (newItem != null) {
+                let oldItem = oldItems != null && oldItems.length > 0 ? oldItems[0] : null;
+                let type = oldItem != null ? SqliteChangeEvent.Updated : SqliteChangeEvent.Created;
+                this.notifyChange(correlationId, type, item.id, oldItem, newItem);
+            }
+
+            if (callback) callback(null, newItem);
+        });
+    }
+
+    /**
+     * Sets a data item and returns it as a promise. If the data item exists it updates it,
+     * otherwise it create a new data item.
+     * 
+     * @param correlation_id    (optional) transaction id to trace execution through call chain.
+     * @param item              a item to be set.
+     * @returns a promise that receives the updated item.
+     */
+    public setAsync(correlationId: string, item: T): Promise<T> {
+        return new Promise((resolve, reject) => {
+            this.set(correlationId, item, (err, item) => {
+                if (err) reject(err);
+                else resolve(item);
             });
         });
     }
 
+    /**
+     * Creates multiple data items in a single transaction.
+     * Items without ids get unique ids assigned the same way as in [[create]].
+     * 
+     * Rows are inserted with reusable prepared statements in chunks that fit into
+     * SQLite limit on bound variables. When a chunk fails, its rows are retried one by one
+     * and failures of individual rows are reported in the result without aborting the batch.
+     * 
+     * @param correlation_id    (optional) transaction id to trace execution through call chain.
+     * @param items             a list of items to be created.
+     * @param callback          (optional) callback function that receives batch result or error.
+     */
+    public createMany(correlationId: string, items: T[],
+        callback?: (err: any, result: SqliteBatchResult<T>) => void): void {
+        this.writeMany(correlationId, items, false, callback);
+    }
+
+    /**
+     * Creates multiple data items in a single transaction and returns the result as a promise.
+     * 
+     * @param correlation_id    (optional) transaction id to trace execution through call chain.
+     * @param items             a list of items to be created.
+     * @returns a promise that receives the batch result.
+     * 
+     * @see [[createMany]]
+     */
+    public createManyAsync(correlationId: string, items: T[]): Promise<SqliteBatchResult<T>> {
+        return new Promise((resolve, reject) => {
+            this.createMany(correlationId, items, (err, result) => {
+                if (err) reject(err);
+                else resolve(result);
+            });
+        });
+    }
+
+    /**
+     * Sets multiple data items in a single transaction. Existing items are updated
+     * and missing items are created. Unlike [[set]] it returns the items as they were
+     * written with assigned ids and stamps, without reading them back from the database.
+     * So fields kept by updates of existing items, like creation time or version, are not read back.
+     * 
+     * @param correlation_id    (optional) transaction id to trace execution through call chain.
+     * @param items             a list of items to be set.
+     * @param callback          (optional) callback function that receives batch result or error.
+     * 
+     * @see [[createMany]]
+     */
+    public setMany(correlationId: string, items: T[],
+        callback?: (err: any, result: SqliteBatchResult<T>) => void): void {
+        this.writeMany(correlationId, items, true, callback);
+    }
+
+    /**
+     * Sets multiple data items in a single transaction and returns the result as a promise.
+     * 
+     * @param correlation_id    (optional) transaction id to trace execution through call chain.
+     * @param items             a list of items to be set.
+     * @returns a promise that receives the batch result.
+     * 
+     * @see [[setMany]]
+     */
+    public setManyAsync(correlationId: string, items: T[]): Promise<SqliteBatchResult<T>> {
+        return new Promise((resolve, reject) => {
+            this.setMany(correlationId, items, (err, result) => {
+                if (err) reject(err);
+                else resolve(result);
+            });
+        });
+    }
+
+    private composeBatchQuery(keys: string[], rowCount: number, upsert: boolean): string {
+        let params = "(" + this.generateParameters(keys) + ")";
+        let query = "INSERT INTO " + this.quoteIdentifier(this._tableName) + " (" + this.generateColumns(keys) + ") VALUES "
+            + _.fill(new Array(rowCount), params).join(",");
+
+        if (upsert) {
+            let setParams = this.composeSetAssignments(keys, (key) => "excluded." + this.quoteIdentifier(key));
+            query += " ON CONFLICT(id) DO UPDATE SET " + setParams;
+        }
+
+        return query;
+    }
+
+    private writeMany(correlationId: string, items: T[], upsert: boolean,
+        callback: (err: any, result: SqliteBatchResult<T>) => void): void {
+
+        if (items == null || items.length == 0) {
+            if (callback) callback(null, new SqliteBatchResult<T>([]));
+            return;
+        }
+
+        // Assign unique ids
+        let newItems: T[] = _.map(items, (item) => {
+            if (item == null || item.id != null) return item;
+            item = _.clone(item);
+            item.id = <any>IdGenerator.nextLong();
+            return item;
+        });
+        let rows: any[] = _.map(newItems, (item) => this.convertFromPublic(this.stampNewItem(correlationId, item)));
+        // Results contain written items with assigned ids and stamps
+        let result = new SqliteBatchResult<T>(_.map(rows, (row) => this.convertToPublic(row)));
+
+        // Group rows with the same columns to insert them with multi-row statements
+        let groups: any = {};
+        for (let index = 0; index < newItems.length; index++) {
+            if (newItems[index] == null) continue;
+
+            let row = rows[index];
+            let keys = _.keys(row);
+            let signature = keys.join(",");
+            groups[signature] = groups[signature] || { keys: keys, rows: [] };
+            groups[signature].rows.push({ index: index, values: this.generateValues(row) });
+        }
+
+        // Prepared statements are reused across chunks.
+        // Statements run inside the transaction, so they are retried the same way as other statements
+        let statements: any = {};
+        let prepare = (query: string, callback: (err: any, statement: any) => void) => {
+            if (statements[query]) {
+                callback(null, statements[query]);
+                return;
+            }
+
+            this.executeOperation(correlationId, false, this._connection != null && this._connection.isInTransaction(), (client, callback) => {
+                let statement = client.prepare(query, (err) => callback(err, statement));
+            }, (err, statement) => {
+                if (err == null) statements[query] = statement;
+                callback(err, statement);
+            });
+        };
+        let run = (query: string, values: any[], callback: (err: any) => void) => {
+            prepare(query, (err, statement) => {
+                if (err) callback(err);
+                else this.executeOperation(correlationId, false, this._connection != null && this._connection.isInTransaction(), (client, callback) => {
+                    statement.run(values, callback);
+                }, callback);
+            });
+        };
+
+        let writeChunk = (keys: string[], chunk: any[], callback: (err: any) => void) => {
+            let query = this.composeBatchQuery(keys, chunk.length, upsert);
+            let values = _.flatten(_.map(chunk, (row) => row.values));
+
+            run(query, values, (err) => {
+                if (err == null || chunk.length == 1) {
+                    if (err) {
+                        result.items[chunk[0].index] = null;
+                        result.errors[chunk[0].index] = err;
+                    }
+                    callback(null);
+                    return;
+                }
+
+                // Failed statement does not leave changes, so retry rows one by one to find failed ones
+                async.eachSeries(chunk, (row, callback) => {
+                    writeChunk(keys, [row], callback);
+                }, callback);
+            });
+        };
+
+        // Existing items are read to report updates to change listeners
+        let oldItems: any = {};
+        let readOldItems = (callback: (err: any) => void) => {
+            if (!upsert || !this.hasChangeListeners()) {
+                callback(null);
+                return;
+            }
+
+            let ids = _.map(_.compact(newItems), (item) => item.id);
+            async.eachSeries(_.chunk(ids, this._maxBatchVariables), (chunk, callback) => {
+                let filter = this.composeActiveFilter(new SqliteFilter("id IN(" + this.generateParameters(chunk) + ")", chunk));
+                let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName) + " WHERE " + filter.condition;
+                this.executeStatement(correlationId, "all", query, filter.params, (err, rows) => {
+                    for (let row of rows || []) {
+                        let item = this.convertToPublic(row);
+                        oldItems[item.id] = item;
+                    }
+                    callback(err);
+                });
+            }, callback);
+        };
+
+        let writeGroups = (callback: (err: any) => void) => {
+            async.eachSeries(_.values(groups), (group, callback) => {
+                let chunkSize = Math.max(1, Math.floor(this._maxBatchVariables / group.keys.length));
+                async.eachSeries(_.chunk(group.rows, chunkSize), (chunk, callback) => {
+                    writeChunk(group.keys, chunk, callback);
+                }, callback);
+            }, (err) => {
+                async.eachSeries(_.values(statements), (statement, callback) => {
+                    statement.finalize(() => callback());
+                }, () => callback(err));
+            });
+        };
+
+        let action = (callback: (err: any) => void) => {
+            readOldItems((err) => {
+                if (err) {
+                    callback(err);
+                    return;
+                }
+                writeGroups(callback);
+            });
+        };
+
+        this.withTransaction(correlationId, action, (err) => {
+            if (err) {
+                if (callback) callback(err, null);
+                return;
+            }
+
+            this._logger.trace(correlationId, "%s %d items in %s with %d failures", upsert ? "Set" : "Created",
+                newItems.length - result.getErrorCount(), this._tableName, result.getErrorCount());
+
+            for (let item of result.items) {
+                if (item == null) continue;
+                let oldItem = oldItems[<any>item.id] || null;
+                let type = oldItem != null ? SqliteChangeEvent.Updated : SqliteChangeEvent.Created;
+                this.notifyChange(correlationId, type, item.id, oldItem, item);
+            }
+
+            if (callback) callback(null, result);
+        });
+    }
+
     /**
      * Updates a data item.
      * 
      * @param correlation_id    (optional) transaction id to trace execution through call chain.
      * @param item              an item to be updated.
-     * @param callback          (optional) callback function that receives updated item or error.
+     * @param callback          (optional) callback function that receives updated item, null if it was not found, or error.
      */
     public update(correlationId: string, item: T, callback?: (err: any, item: T) => void): void {
         if (item == null || item.id == null) {
@@ -253,28 +929,59 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
             return;
         }
 
-        let row = this.convertFromPublic(item);
-        let params = this.generateSetParameters(row);
-        let values = this.generateValues(row);
-        values.push(item.id);
+        let version = this._versionField != null ? item[this._versionField] : null;
+        let row = this.convertFromPublic(this.stampUpdatedItem(correlationId, item));
+        let update = this.composeUpdateSet(row);
+        let values = update.values;
+
+        let filter = this.composeActiveFilter(new SqliteFilter("id=?", [item.id]));
+        if (version != null)
+            filter.append(this.composeField(this._versionField) + "=?", version);
+        values.push(...filter.params);
 
-        let query = "UPDATE " + this.quoteIdentifier(this._tableName) + " SET " + params + " WHERE id=?";
+        let query = "UPDATE " + this.quoteIdentifier(this._tableName) + " SET " + update.set + " WHERE " + filter.condition;
 
-        this._client.serialize(() => {
-            this._client.run(query, values, (err, result) => {
-                if (!err)
-                    this._logger.trace(correlationId, "Updated in %s with id = %s", this._tableName, item.id);
+        let select = (result) => new SqliteFilter("id=?", [item.id]);
 
-                let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName) + " WHERE id=?";
-                this._client.get(query, [item.id], (err, result) => {
-                    err = err || null;
-                    result = result || null;
+        let write = (callback) => this.executeReturning(correlationId, query, values, select, callback);
 
-                    let newItem = result ? this.convertToPublic(result) : null;
-        
-                    if (callback) callback(err, newItem);
+        this.readBeforeWrite(correlationId, filter, write, (err, oldItems, result) => {
+            if (err) {
+                if (callback) callback(err, null);
+                return;
+            }
+
+            if (result == null) {
+                this.checkVersionConflict(correlationId, item.id, version, (err) => {
+                    if (err == null)
+                        this._logger.trace(correlationId, "Nothing updated in %s with id = %s", this._tableName, item.id);
+                    if (callback) callback(err, null);
                 });
-            });    
+                return;
+            }
+
+            this._logger.trace(correlationId, "Updated in %s with id = %s", this._tableName, item.id);
+
+            let newItem = this.convertToPublic(result);
+            this.notifyChange(correlationId, SqliteChangeEvent.Updated, item.id, oldItems ? oldItems[0] : null, newItem);
+
+            if (callback) callback(null, newItem);
+        });
+    }
+
+    /**
+     * Updates a data item and returns it as a promise.
+     * 
+     * @param correlation_id    (optional) transaction id to trace execution through call chain.
+     * @param item              an item to be updated.
+     * @returns a promise that receives the updated item.
+     */
+    public updateAsync(correlationId: string, item: T): Promise<T> {
+        return new Promise((resolve, reject) => {
+            this.update(correlationId, item, (err, item) => {
+                if (err) reject(err);
+                else resolve(item);
+            });
         });
     }
 
@@ -284,7 +991,7 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
      * @param correlation_id    (optional) transaction id to trace execution through call chain.
      * @param id                an id of data item to be updated.
      * @param data              a map with fields to be updated.
-     * @param callback          callback function that receives updated item or error.
+     * @param callback          callback function that receives updated item, null if it was not found, or error.
      */
     public updatePartially(correlationId: string, id: K, data: AnyValueMap,
         callback?: (err: any, item: T) => void): void {
@@ -294,28 +1001,65 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
             return;
         }
 
-        let row = this.convertFromPublicPartial(data.getAsObject());
-        let params = this.generateSetParameters(row);
-        let values = this.generateValues(row);
-        values.push(id);
-
-        let query = "UPDATE " + this.quoteIdentifier(this._tableName) + " SET " + params + " WHERE id=?";
-
-        this._client.serialize(() => {
-            this._client.run(query, values, (err, result) => {
-                if (!err)
-                    this._logger.trace(correlationId, "Updated partially in %s with id = %s", this._tableName, id);
-
-                let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName) + " WHERE id=?";
-                this._client.get(query, [id], (err, result) => {
-                    err = err || null;
-                    result = result || null;
-        
-                    let newItem = result ? this.convertToPublic(result) : null;
-        
-                    if (callback) callback(err, newItem);
+        let partial = data.getAsObject();
+        let version = this._versionField != null ? partial[this._versionField] : null;
+        if (this._versionField != null)
+            delete partial[this._versionField];
+        partial = this.stampUpdatedItem(correlationId, _.omit(partial, this.getCreationFields()));
+
+        let row = this.convertFromPublicPartial(partial);
+        let update = this.composeUpdateSet(row);
+        let values = update.values;
+
+        let filter = this.composeActiveFilter(new SqliteFilter("id=?", [id]));
+        if (version != null)
+            filter.append(this.composeField(this._versionField) + "=?", version);
+        values.push(...filter.params);
+
+        let query = "UPDATE " + this.quoteIdentifier(this._tableName) + " SET " + update.set + " WHERE " + filter.condition;
+
+        let select = (result) => new SqliteFilter("id=?", [id]);
+
+        let write = (callback) => this.executeReturning(correlationId, query, values, select, callback);
+
+        this.readBeforeWrite(correlationId, filter, write, (err, oldItems, result) => {
+            if (err) {
+                if (callback) callback(err, null);
+                return;
+            }
+
+            if (result == null) {
+                this.checkVersionConflict(correlationId, id, version, (err) => {
+                    if (err == null)
+                        this._logger.trace(correlationId, "Nothing updated in %s with id = %s", this._tableName, id);
+                    if (callback) callback(err, null);
                 });
-            });    
+                return;
+            }
+
+            this._logger.trace(correlationId, "Updated partially in %s with id = %s", this._tableName, id);
+
+            let newItem = this.convertToPublic(result);
+            this.notifyChange(correlationId, SqliteChangeEvent.Updated, id, oldItems ? oldItems[0] : null, newItem);
+
+            if (callback) callback(null, newItem);
+        });
+    }
+
+    /**
+     * Updates only few selected fields in a data item and returns it as a promise.
+     * 
+     * @param correlation_id    (optional) transaction id to trace execution through call chain.
+     * @param id                an id of data item to be updated.
+     * @param data              a map with fields to be updated.
+     * @returns a promise that receives the updated item.
+     */
+    public updatePartiallyAsync(correlationId: string, id: K, data: AnyValueMap): Promise<T> {
+        return new Promise((resolve, reject) => {
+            this.updatePartially(correlationId, id, data, (err, item) => {
+                if (err) reject(err);
+                else resolve(item);
+            });
         });
     }
 
@@ -327,30 +1071,41 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
      * @param callback          (optional) callback function that receives deleted item or error.
      */
     public deleteById(correlationId: string, id: K, callback?: (err: any, item: T) => void): void {
-        let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName) + " WHERE id=?"
+        let filter = this.composeActiveFilter(new SqliteFilter("id=?", [ id ]));
+        let statement = this.composeDelete(filter);
 
-        this._client.serialize(() => {
-            this._client.get(query, [ id ], (err, result) => {
-                err = err || null;
-    
-                let newItem = result ? this.convertToPublic(result) : null;
+        let write = (callback) => {
+            this.executeStatement(correlationId, "run", statement.query, statement.params, callback);
+        };
 
-                // Skip if there is nothing to delete
-                if (newItem == null) {
-                    if (callback) callback(err, newItem);
-                    return;
-                }
-    
-                let query = "DELETE FROM " + this.quoteIdentifier(this._tableName) + " WHERE id=?";
-                this._client.run(query, [ id ], (err, result) => {
-                    err = err || null;
-                    result = result || null;
+        // The deleted item is read in the same transaction to return it
+        this.readBeforeWrite(correlationId, filter, write, (err, oldItems, result) => {
+            err = err || null;
 
-                    if (!err)
-                        this._logger.trace(correlationId, "Deleted from %s with id = %s", this._tableName, id);
-                
-                    if (callback) callback(err, newItem);
-                });
+            let oldItem = !err && result != null && result.changes > 0 && oldItems.length > 0 ? oldItems[0] : null;
+            if (!err && oldItem == null) {
+                this._logger.trace(correlationId, "Nothing deleted from %s with id = %s", this._tableName, id);
+            } else if (!err) {
+                this._logger.trace(correlationId, "Deleted from %s with id = %s", this._tableName, id);
+                this.notifyChange(correlationId, SqliteChangeEvent.Deleted, id, oldItem, null);
+            }
+
+            if (callback) callback(err, oldItem);
+        }, true);
+    }
+
+    /**
+     * Deleted a data item by it's unique id and returns it as a promise.
+     * 
+     * @param correlation_id    (optional) transaction id to trace execution through call chain.
+     * @param id                an id of the item to be deleted
+     * @returns a promise that receives the deleted item.
+     */
+    public deleteByIdAsync(correlationId: string, id: K): Promise<T> {
+        return new Promise((resolve, reject) => {
+            this.deleteById(correlationId, id, (err, item) => {
+                if (err) reject(err);
+                else resolve(item);
             });
         });
     }
@@ -360,20 +1115,101 @@ export class IdentifiableSqlitePersistence<T extends IIdentifiable<K>, K> extend
      * 
      * @param correlationId     (optional) transaction id to trace execution through call chain.
      * @param ids               ids of data items to be deleted.
-     * @param callback          (optional) callback function that receives error or null for success.
+     * @param callback          (optional) callback function that receives error or number of deleted items.
      */
-    public deleteByIds(correlationId: string, ids: K[], callback?: (err: any) => void): void {
+    public deleteByIds(correlationId: string, ids: K[], callback?: (err: any, count?: number) => void): void {
         let params = this.generateParameters(ids);
-        let query = "DELETE FROM " + this.quoteIdentifier(this._tableName) + " WHERE id IN(" + params + ")";
+        let filter = this.composeActiveFilter(new SqliteFilter("id IN(" + params + ")", ids));
+        let statement = this.composeDelete(filter);
+
+        let write = (callback) => {
+            this.executeStatement(correlationId, "run", statement.query, statement.params, callback);
+        };
 
-        this._client.run(query, ids, (err, result) => {
-            let count = 0; //result ? result.affectedRows : 0;
+        this.readBeforeWrite(correlationId, filter, write, (err, oldItems, result) => {
+            let count = result ? result.changes : 0;
 
             err = err || null;
-            if (!err)
+            if (!err) {
                 this._logger.trace(correlationId, "Deleted %d items from %s", count, this._tableName);
 
-            if (callback) callback(err);
+                for (let oldItem of oldItems || [])
+                    this.notifyChange(correlationId, SqliteChangeEvent.Deleted, oldItem.id, oldItem, null);
+            }
+
+            if (callback) callback(err, err ? null : count);
+        });
+    }
+
+    /**
+     * Deletes multiple data items by their unique ids and returns a promise.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param ids               ids of data items to be deleted.
+     * @returns a promise that receives the number of deleted items.
+     */
+    public deleteByIdsAsync(correlationId: string, ids: K[]): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.deleteByIds(correlationId, ids, (err, count) => {
+                if (err) reject(err);
+                else resolve(count);
+            });
+        });
+    }
+
+    /**
+     * Restores a soft-deleted data item by it's unique id.
+     * Change listeners receive an updated event with the deleted item as the old value.
+     * 
+     * @param correlation_id    (optional) transaction id to trace execution through call chain.
+     * @param id                an id of the item to be restored.
+     * @param callback          (optional) callback function that receives restored item, null if it was not deleted, or error.
+     */
+    public restoreById(correlationId: string, id: K, callback?: (err: any, item: T) => void): void {
+        let deletedField = this.quoteIdentifier(this._deletedField);
+        let query = "UPDATE " + this.quoteIdentifier(this._tableName) + " SET " + deletedField + "=NULL"
+            + " WHERE id=? AND " + deletedField + " IS NOT NULL";
+
+        let select = (result) => new SqliteFilter("id=?", [id]);
+        let filter = new SqliteFilter("id=? AND " + deletedField + " IS NOT NULL", [id]);
+
+        let write = (callback) => {
+            this.executeReturning(correlationId, query, [id], select, callback);
+        };
+
+        this.readBeforeWrite(correlationId, filter, write, (err, oldItems, result) => {
+            if (err) {
+                if (callback) callback(err, null);
+                return;
+            }
+
+            if (result == null)
+                this._logger.trace(correlationId, "Nothing restored in %s with id = %s", this._tableName, id);
+            else
+                this._logger.trace(correlationId, "Restored in %s with id = %s", this._tableName, id);
+
+            // Listeners receive the deleted item as the old value
+            let newItem = result ? this.convertToPublic(result) : null;
+            if (newItem != null)
+                this.notifyChange(correlationId, SqliteChangeEvent.Updated, id, oldItems ? oldItems[0] : null, newItem);
+
+            if (callback) callback(null, newItem);
+        });
+    }
+
+    /**
+     * Restores a soft-deleted data item by it's unique id and returns it as a promise.
+     * 
+     * @param correlation_id    (optional) transaction id to trace execution through call chain.
+     * @param id                an id of the item to be restored.
+     * @returns a promise that receives the restored item.
+     */
+    public restoreByIdAsync(correlationId: string, id: K): Promise<T> {
+        return new Promise((resolve, reject) => {
+            this.restoreById(correlationId, id, (err, item) => {
+                if (err) reject(err);
+                else resolve(item);
+            });
         });
     }
 }
@@ -0,0 +1,313 @@
+/** @module persistence */
+const _ = require('lodash');
+const fs = require('fs');
+const path = require('path');
+
+import { IReferenceable } from 'pip-services3-commons-node';
+import { IUnreferenceable } from 'pip-services3-commons-node';
+import { IReferences } from 'pip-services3-commons-node';
+import { IConfigurable } from 'pip-services3-commons-node';
+import { IOpenable } from 'pip-services3-commons-node';
+import { ConfigParams } from 'pip-services3-commons-node';
+import { ConfigException } from 'pip-services3-commons-node';
+import { InvalidStateException } from 'pip-services3-commons-node';
+import { DependencyResolver } from 'pip-services3-commons-node';
+import { FixedRateTimer } from 'pip-services3-commons-node';
+import { CompositeLogger } from 'pip-services3-components-node';
+
+import { SqliteConnection } from './SqliteConnection';
+
+/**
+ * Component that periodically backs up a SQLite database into a directory
+ * and keeps a limited number of the latest backups.
+ *
+ * Backups are made with [[SqliteConnection.backup]], so the database stays available
+ * to readers and writers while it is copied. Backup files are named
+ * <code>&lt;prefix&gt;-&lt;UTC timestamp&gt;.db</code>.
+ *
+ * ### Configuration parameters ###
+ *
+ * - options:
+ *   - path:                  directory to store backup files
+ *   - interval:              (optional) number of milliseconds between backups (default: 86400000)
+ *   - retention:             (optional) number of the latest backups to keep, 0 to keep all (default: 7)
+ *   - prefix:                (optional) prefix of backup file names (default: backup)
+ *
+ * ### References ###
+ *
+ * - <code>\*:logger:\*:\*:1.0</code>           (optional) [[https://pip-services3-node.github.io/pip-services3-components-node/interfaces/log.ilogger.html ILogger]] components to pass log messages
+ * - <code>\*:connection:sqlite:\*:1.0</code>   [[SqliteConnection]] to the backed up database
+ *
+ * ### Example ###
+ *
+ *     let scheduler = new SqliteBackupScheduler();
+ *     scheduler.configure(ConfigParams.fromTuples(
+ *         "options.path", "./backups",
+ *         "options.interval", 3600000,
+ *         "options.retention", 24
+ *     ));
+ *     scheduler.setReferences(References.fromTuples(
+ *         new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+ *     ));
+ *
+ *     scheduler.open("123", (err) => {
+ *         ...
+ *     });
+ */
+export class SqliteBackupScheduler implements IReferenceable, IUnreferenceable, IConfigurable, IOpenable {
+
+    private static _defaultConfig: ConfigParams = ConfigParams.fromTuples(
+        "dependencies.connection", "*:connection:sqlite:*:1.0",
+
+        "options.path", null,
+        "options.interval", 86400000,
+        "options.retention", 7,
+        "options.prefix", "backup"
+    );
+
+    private _timer: FixedRateTimer;
+    private _running: boolean = false;
+
+    /**
+     * The dependency resolver.
+     */
+    protected _dependencyResolver: DependencyResolver = new DependencyResolver(SqliteBackupScheduler._defaultConfig);
+    /**
+     * The logger.
+     */
+    protected _logger: CompositeLogger = new CompositeLogger();
+    /**
+     * The SQLite connection component.
+     */
+    protected _connection: SqliteConnection;
+
+    /**
+     * The directory to store backup files.
+     */
+    protected _path: string;
+    /**
+     * The number of milliseconds between backups.
+     */
+    protected _interval: number = 86400000;
+    /**
+     * The number of the latest backups to keep.
+     */
+    protected _retention: number = 7;
+    /**
+     * The prefix of backup file names.
+     */
+    protected _prefix: string = "backup";
+
+    /**
+     * Configures component by passing configuration parameters.
+     *
+     * @param config    configuration parameters to be set.
+     */
+    public configure(config: ConfigParams): void {
+        config = config.setDefaults(SqliteBackupScheduler._defaultConfig);
+
+        this._dependencyResolver.configure(config);
+
+        this._path = config.getAsStringWithDefault("options.path", this._path);
+        this._interval = config.getAsIntegerWithDefault("options.interval", this._interval);
+        this._retention = config.getAsIntegerWithDefault("options.retention", this._retention);
+        this._prefix = config.getAsStringWithDefault("options.prefix", this._prefix);
+    }
+
+    /**
+	 * Sets references to dependent components.
+	 *
+	 * @param references 	references to locate the component dependencies.
+     */
+    public setReferences(references: IReferences): void {
+        this._logger.setReferences(references);
+        this._dependencyResolver.setReferences(references);
+        this._connection = this._dependencyResolver.getOneRequired<SqliteConnection>('connection');
+    }
+
+    /**
+	 * Unsets (clears) previously set references to dependent components.
+     */
+    public unsetReferences(): void {
+        this._connection = null;
+    }
+
+    /**
+	 * Checks if the component is opened.
+	 *
+	 * @returns true if the component has been opened and false otherwise.
+     */
+    public isOpen(): boolean {
+        return this._timer != null;
+    }
+
+    /**
+	 * Opens the component and starts periodic backups.
+	 *
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback that receives error or null no errors occured.
+     */
+    public open(correlationId: string, callback?: (err: any) => void): void {
+        if (this._timer != null) {
+            if (callback) callback(null);
+            return;
+        }
+
+        if (this._path == null || this._path == "") {
+            if (callback) callback(new ConfigException(correlationId, "NO_PATH", "Backup path is not set"));
+            return;
+        }
+
+        try {
+            fs.mkdirSync(this._path, { recursive: true });
+        } catch (ex) {
+            if (callback) callback(new ConfigException(correlationId, "INVALID_PATH", "Backup path " + this._path + " can not be created")
+                .withCause(ex));
+            return;
+        }
+
+        this._timer = new FixedRateTimer(() => {
+            this.backup(correlationId, (err) => {
+                if (err) this._logger.error(correlationId, err, "Failed to make scheduled backup");
+            });
+        }, this._interval, this._interval);
+        this._timer.start();
+
+        this._logger.debug(correlationId, "Scheduled sqlite backups to %s every %d ms", this._path, this._interval);
+        if (callback) callback(null);
+    }
+
+    /**
+	 * Opens the component and returns a promise.
+	 *
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the component is opened.
+     */
+    public openAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.open(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    /**
+	 * Closes component and stops periodic backups. A backup in progress is completed.
+	 *
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public close(correlationId: string, callback?: (err: any) => void): void {
+        if (this._timer != null) {
+            this._timer.stop();
+            this._timer = null;
+        }
+
+        if (callback) callback(null);
+    }
+
+    /**
+	 * Closes component and returns a promise.
+	 *
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the component is closed.
+     */
+    public closeAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.close(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    /**
+     * Gets paths of existing backup files ordered from the oldest to the latest.
+     *
+     * @returns a list of backup file paths.
+     */
+    public getBackups(): string[] {
+        if (this._path == null || !fs.existsSync(this._path)) return [];
+
+        let pattern = new RegExp("^" + _.escapeRegExp(this._prefix) + "-\\d{8}T\\d{9}Z(-\\d+)?\\.db$");
+        let files = _.filter(fs.readdirSync(this._path), (file) => pattern.test(file));
+        files = _.sortBy(files, (file) => file.replace(/\.db$/, ""));
+        return _.map(files, (file) => path.join(this._path, file));
+    }
+
+    /**
+     * Makes a backup immediately and removes old backups beyond the retention limit.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives a path of the backup file or error.
+     */
+    public backup(correlationId: string, callback?: (err: any, path: string) => void): void {
+        if (this._connection == null || !this._connection.isOpen()) {
+            if (callback) callback(new InvalidStateException(correlationId, 'NO_CONNECTION', 'Sqlite connection is not opened'), null);
+            return;
+        }
+
+        if (this._running) {
+            if (callback) callback(new InvalidStateException(correlationId, 'BACKUP_IN_PROGRESS', 'Another backup is in progress'), null);
+            return;
+        }
+
+        let targetPath = this.composeBackupPath();
+
+        this._running = true;
+        this._connection.backup(correlationId, targetPath, null, (err) => {
+            this._running = false;
+
+            if (err) {
+                if (callback) callback(err, null);
+                return;
+            }
+
+            this.removeOldBackups(correlationId);
+            if (callback) callback(null, targetPath);
+        });
+    }
+
+    /**
+     * Makes a backup immediately and returns a promise.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that receives a path of the backup file.
+     */
+    public backupAsync(correlationId: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            this.backup(correlationId, (err, path) => {
+                if (err) reject(err);
+                else resolve(path);
+            });
+        });
+    }
+
+    private composeBackupPath(): string {
+        let timestamp = new Date().toISOString().replace(/[-:.]/g, "");
+        let targetPath = path.join(this._path, this._prefix + "-" + timestamp + ".db");
+
+        // Backups made within the same millisecond get a counter
+        for (let index = 1; fs.existsSync(targetPath); index++)
+            targetPath = path.join(this._path, this._prefix + "-" + timestamp + "-" + index + ".db");
+
+        return targetPath;
+    }
+
+    private removeOldBackups(correlationId: string): void {
+        if (this._retention <= 0) return;
+
+        let backups = this.getBackups();
+        let removed = backups.slice(0, Math.max(0, backups.length - this._retention));
+
+        for (let file of removed) {
+            try {
+                fs.unlinkSync(file);
+                this._logger.debug(correlationId, "Removed old sqlite backup %s", file);
+            } catch (ex) {
+                this._logger.warn(correlationId, "Failed to remove old sqlite backup %s: %s", file, ex.message);
+            }
+        }
+    }
+}
@@ -0,0 +1,51 @@
+/** @module persistence */
+
+/**
+ * Result of a batch write operation like createMany or setMany.
+ *
+ * Items and errors are stored in the same order as the items passed to the operation.
+ * A successfully written item has null in the errors list, and a failed item
+ * has null in the items list and the reason of the failure in the errors list.
+ *
+ * @see [[IdentifiableSqlitePersistence.createMany]]
+ * @see [[IdentifiableSqlitePersistence.setMany]]
+ */
+export class SqliteBatchResult<T> {
+    /**
+     * The written data items.
+     */
+    public items: T[];
+    /**
+     * The errors for items that failed to be written.
+     */
+    public errors: any[];
+
+    /**
+     * Creates a new instance of the batch result.
+     *
+     * @param items     written data items.
+     * @param errors    (optional) errors for failed items.
+     */
+    public constructor(items: T[], errors?: any[]) {
+        this.items = items || [];
+        this.errors = errors || this.items.map(() => null);
+    }
+
+    /**
+     * Checks if any of the items failed to be written.
+     *
+     * @returns true if there are failed items and false otherwise.
+     */
+    public hasErrors(): boolean {
+        return this.getErrorCount() > 0;
+    }
+
+    /**
+     * Gets the number of items that failed to be written.
+     *
+     * @returns the number of failed items.
+     */
+    public getErrorCount(): number {
+        return this.errors.filter((err) => err != null).length;
+    }
+}
@@ -0,0 +1,61 @@
+/** @module persistence */
+
+/**
+ * Change event emitted by [[SqlitePersistence]] after a successful write.
+ *
+ * Events of writes made inside a transaction are emitted only after the transaction is committed.
+ *
+ * @see [[ISqliteChangeListener]]
+ */
+export class SqliteChangeEvent<T> {
+    /**
+     * The event type for created items.
+     */
+    public static readonly Created: string = "created";
+    /**
+     * The event type for updated items, including restored soft-deleted items.
+     */
+    public static readonly Updated: string = "updated";
+    /**
+     * The event type for deleted items.
+     */
+    public static readonly Deleted: string = "deleted";
+
+    /**
+     * The type of the change: created, updated or deleted.
+     */
+    public type: string;
+    /**
+     * The name of the changed table.
+     */
+    public table: string;
+    /**
+     * The id of the changed item.
+     */
+    public id: any;
+    /**
+     * The item before the change or null if it was created.
+     */
+    public oldValue: T;
+    /**
+     * The item after the change or null if it was deleted.
+     */
+    public newValue: T;
+
+    /**
+     * Creates a new instance of the change event.
+     *
+     * @param type      the type of the change.
+     * @param table     the name of the changed table.
+     * @param id        the id of the changed item.
+     * @param oldValue  (optional) the item before the change.
+     * @param newValue  (optional) the item after the change.
+     */
+    public constructor(type: string, table: string, id: any, oldValue?: T, newValue?: T) {
+        this.type = type;
+        this.table = table;
+        this.id = id;
+        this.oldValue = oldValue != null ? oldValue : null;
+        this.newValue = newValue != null ? newValue : null;
+    }
+}
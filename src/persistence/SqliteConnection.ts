@@ -1,15 +1,23 @@
 /** @module persistence */
 const _ = require('lodash');
+const async = require('async');
+const fs = require('fs');
+const { AsyncLocalStorage, AsyncResource } = require('async_hooks');
 
 import { IReferenceable } from 'pip-services3-commons-node';
 import { IReferences } from 'pip-services3-commons-node';
 import { IConfigurable } from 'pip-services3-commons-node';
 import { IOpenable } from 'pip-services3-commons-node';
 import { ConfigParams } from 'pip-services3-commons-node';
+import { ConfigException } from 'pip-services3-commons-node';
 import { ConnectionException } from 'pip-services3-commons-node';
+import { InvalidStateException } from 'pip-services3-commons-node';
+import { NotFoundException } from 'pip-services3-commons-node';
+import { UnauthorizedException } from 'pip-services3-commons-node';
 import { CompositeLogger } from 'pip-services3-components-node';
 
 import { SqliteConnectionResolver } from '../connect/SqliteConnectionResolver';
+import { SqliteErrorTranslator } from './SqliteErrorTranslator';
 
 /**
  * SQLite connection using plain driver.
@@ -21,8 +29,25 @@ import { SqliteConnectionResolver } from '../connect/SqliteConnectionResolver';
  * 
  * - connection(s):    
  *   - discovery_key:             (optional) a key to retrieve the connection from [[https://pip-services3-node.github.io/pip-services3-components-node/interfaces/connect.idiscovery.html IDiscovery]]
- *   - database:                  database file path
- *   - uri:                       resource URI with file:// protocol
+ *   - database:                  database file path, <code>:memory:</code> or a name of in-memory database
+ *   - uri:                       resource URI with file: protocol, like <code>file://./data/app.db?mode=ro</code> or <code>file::memory:?cache=shared</code>
+ *   - mode:                      (optional) open mode: ro (read-only), rw (must already exist), rwc (read/write, create if missing) or memory (default: rwc)
+ *   - cache:                     (optional) cache mode: shared or private
+ * - credential(s):    
+ *   - store_key:                 (optional) a key to retrieve the credentials from [[https://pip-services3-node.github.io/pip-services3-components-node/interfaces/auth.icredentialstore.html ICredentialStore]]
+ *   - password:                  (optional) encryption key. It requires sqlite3 module linked with SQLCipher
+ * - options:
+ *   - connect_timeout:           (optional) number of milliseconds to wait for a locked database (busy_timeout) (default: 5000)
+ *   - auto_reconnect:            (optional) reopens the database file after SQLITE_CANTOPEN or SQLITE_IOERR errors (default: true)
+ *   - debug:                     (optional) enables verbose mode and traces executed statements with their duration (default: false)
+ *   - journal_mode:              (optional) journal mode: DELETE, TRUNCATE, PERSIST, MEMORY, WAL or OFF
+ *   - synchronous:               (optional) synchronous mode: OFF, NORMAL, FULL or EXTRA
+ *   - foreign_keys:              (optional) true to enforce foreign key constraints
+ *   - cache_size:                (optional) suggested number of cache pages, or kibibytes when negative
+ *   - max_pool_size:             (optional) number of read-only database handles used for SELECT statements in WAL mode,
+ *                                0 to run all statements on a single handle (default: 2)
+ *   - backup_step_pages:         (optional) number of pages copied by a single backup step (default: 100)
+ *   - backup_step_delay:         (optional) number of milliseconds between backup steps when writers can access the database (default: 10)
  * 
  * ### References ###
  * 
@@ -30,14 +55,55 @@ import { SqliteConnectionResolver } from '../connect/SqliteConnectionResolver';
  * - <code>\*:discovery:\*:\*:1.0</code>        (optional) [[https://pip-services3-node.github.io/pip-services3-components-node/interfaces/connect.idiscovery.html IDiscovery]] services
  * - <code>\*:credential-store:\*:\*:1.0</code> (optional) Credential stores to resolve credentials
  * 
+ * ### Transactions ###
+ * 
+ * The connection runs one transaction at a time. Transactions started by independent callers
+ * wait in a queue until the running one is committed or rolled back. All persistence components
+ * that share the connection join the transaction when they are called from inside its action.
+ * Statements issued outside of the action wait until the transaction is completed, so they never
+ * see or change its uncommitted data. Nested transactions started inside the action are implemented as savepoints.
+ * 
+ *     connection.withTransaction("123", (callback) => {
+ *         persistence1.create("123", item1, (err) => {
+ *             if (err) { callback(err); return; }
+ *             persistence2.deleteById("123", item2.id, callback);
+ *         });
+ *     }, (err) => {
+ *         // Both changes are either committed or rolled back
+ *     });
+ * 
+ * ### Reader pool ###
+ * 
+ * In WAL journal mode SQLite allows readers to run concurrently with a writer.
+ * The connection opens one writer handle and a pool of read-only handles. Persistence components
+ * send SELECT statements to the readers, so long reads do not queue behind writes.
+ * All other statements run on the writer. While a transaction is in progress all statements,
+ * including reads, run on the writer to see uncommitted changes of the transaction.
+ * In other journal modes and for in-memory databases the pool is not opened.
+ * 
  */
 export class SqliteConnection implements IReferenceable, IConfigurable, IOpenable {
 
     private _defaultConfig: ConfigParams = ConfigParams.fromTuples(
         // connections.*
         // credential.*
+
+        "options.connect_timeout", 5000,
+        "options.auto_reconnect", true,
+        "options.max_pool_size", 2,
+        "options.backup_step_pages", 100,
+        "options.backup_step_delay", 10,
+        "options.debug", false
     );
 
+    private static readonly _journalModes: string[] = ["DELETE", "TRUNCATE", "PERSIST", "MEMORY", "WAL", "OFF"];
+    private static readonly _synchronousModes: string[] = ["OFF", "NORMAL", "FULL", "EXTRA", "0", "1", "2", "3"];
+    private static readonly _reconnectErrors: string[] = ["SQLITE_CANTOPEN", "SQLITE_IOERR"];
+
+    private _databaseConfig: any;
+    private _reconnecting: boolean = false;
+    private _reconnectListeners: (() => void)[] = [];
+
     /** 
      * The logger.
      */
@@ -55,10 +121,45 @@ export class SqliteConnection implements IReferenceable, IConfigurable, IOpenabl
      * The SQLite connection pool object.
      */
     protected _connection: any;
+    /**
+     * The read-only SQLite database handles used for SELECT statements.
+     */
+    protected _readers: any[] = [];
+    private _nextReader: number = 0;
+    private _rekeying: boolean = false;
     /**
      * The SQLite database name.
      */
     protected _databaseName: string;
+    /**
+     * The number of currently open (nested) transactions.
+     */
+    protected _transactionLevel: number = 0;
+    /**
+     * The running top-level transaction. Calls from inside the transaction action
+     * carry it in their async context.
+     */
+    private _transaction: any = null;
+    private _transactionStorage = new AsyncLocalStorage();
+    /**
+     * The number of statements running on the writer outside of transactions.
+     */
+    private _writerUsers: number = 0;
+    private _writerQueue: { exclusive: boolean, grant: (transaction: any) => void }[] = [];
+    /**
+     * The numbers of running statements per database handle.
+     * Replaced handles are closed when their statements are completed.
+     */
+    private _handleUsers: Map<any, number> = new Map<any, number>();
+    private _retiredHandles: any[] = [];
+    /**
+     * Actions deferred until commit, one list per transaction level.
+     */
+    private _commitActions: (() => void)[][] = [];
+    /**
+     * The version of SQLite library.
+     */
+    protected _sqliteVersion: string;
 
     /**
      * Creates a new instance of the connection component.
@@ -113,24 +214,387 @@ export class SqliteConnection implements IReferenceable, IConfigurable, IOpenabl
 
             this._logger.debug(correlationId, "Connecting to sqlite");
 
-            try {
-                let sqlite = require('sqlite3');
+            this.openDatabases(correlationId, config, (err, db, readers) => {
+                if (err == null) {
+                    this._connection = db;
+                    this._readers = readers;
+                    this._databaseName = config.database;
+                    this._databaseConfig = config;
+                }
+
+                if (callback) callback(err);
+            });
+        });
+    }
+
+    private openDatabases(correlationId: string, config: any, callback: (err: any, db: any, readers: any[]) => void): void {
+        this.openDatabase(correlationId, config, false, (err, db) => {
+            if (err) {
+                callback(err, null, null);
+                return;
+            }
+
+            this.openReaders(correlationId, config, db, (err, readers) => {
+                if (err) {
+                    db.close(() => callback(err, null, null));
+                    return;
+                }
+
+                callback(null, db, readers);
+            });
+        });
+    }
+
+    private openReaders(correlationId: string, config: any, db: any, callback: (err: any, readers: any[]) => void): void {
+        let poolSize = this._options.getAsIntegerWithDefault("max_pool_size", 0);
+        if (poolSize <= 0) {
+            callback(null, []);
+            return;
+        }
+
+        // Without WAL readers and the writer block each other
+        db.get("PRAGMA journal_mode", (err, result) => {
+            if (err != null || result == null || String(result.journal_mode).toUpperCase() != "WAL") {
+                callback(null, []);
+                return;
+            }
+
+            // Readers in a shared cache would read uncommitted changes of the writer
+            let readerConfig = _.assign({}, config, { mode: "ro", cache: "private" });
+            async.times(poolSize, (index, callback) => {
+                this.openDatabase(correlationId, readerConfig, true, callback);
+            }, (err, readers) => {
+                if (err) {
+                    this.closeDatabases(_.compact(readers), () => callback(err, null));
+                    return;
+                }
+
+                this._logger.debug(correlationId, "Opened %d readers to sqlite database %s", readers.length, config.database);
+                callback(null, readers);
+            });
+        });
+    }
+
+    private closeDatabases(databases: any[], callback: (err: any) => void): void {
+        async.each(databases, (db, callback) => db.close(callback), (err) => callback(err || null));
+    }
+
+    private openDatabase(correlationId: string, config: any, readOnly: boolean, callback: (err: any, db: any) => void): void {
+        let pragmas: string[];
+        try {
+            pragmas = this.composePragmas(correlationId);
+        } catch (ex) {
+            callback(ex, null);
+            return;
+        }
+
+        // Journal mode is switched by the writer
+        if (readOnly)
+            pragmas = _.filter(pragmas, (pragma) => pragma.indexOf("PRAGMA journal_mode") != 0);
+
+        try {
+            let sqlite = require('sqlite3');
+            if (this._options.getAsBoolean("debug")) sqlite = sqlite.verbose();
+
+            let filename = this.composeFilename(config);
+            let flags = this.composeOpenFlags(sqlite, config);
+
+            let db = new sqlite.Database(filename, flags, (err) => {
+                if (err != null) {
+                    err = new ConnectionException(correlationId, "CONNECT_FAILED", "Connection to sqlite failed").withCause(err);
+                    callback(err, null);
+                    return;
+                }
 
-                let db = new sqlite.Database(config.database, /*sqlite.OPEN_CREATE,*/ (err) => {
+                this.applyKey(correlationId, db, config.key, (err) => {
                     if (err != null) {
-                        err = new ConnectionException(correlationId, "CONNECT_FAILED", "Connection to sqlite failed").withCause(err);
-                    } else {
-                        this._connection = db;                        
-                        this._databaseName = config.database;
+                        db.close(() => callback(err, null));
+                        return;
                     }
 
-                    if (callback) callback(err);
+                    this.configureDatabase(correlationId, db, pragmas, callback);
                 });
-            } catch (ex) {
-                let err = new ConnectionException(correlationId, "CONNECT_FAILED", "Connection to sqlite failed").withCause(ex);
+            });
+        } catch (ex) {
+            let err = new ConnectionException(correlationId, "CONNECT_FAILED", "Connection to sqlite failed").withCause(ex);
+            callback(err, null);
+        }
+    }
+
+    private quoteKey(key: string): string {
+        return "'" + key.replace(/'/g, "''") + "'";
+    }
+
+    private checkEncryption(correlationId: string, db: any, callback: (err: any) => void): void {
+        // SQLCipher returns its version, while regular SQLite ignores unknown pragmas
+        db.get("PRAGMA cipher_version", (err, result) => {
+            if (err == null && (result == null || result.cipher_version == null)) {
+                err = new ConfigException(correlationId, "ENCRYPTION_NOT_SUPPORTED",
+                    "Sqlite encryption is not supported. Use sqlite3 module linked with SQLCipher");
+            }
+            callback(err);
+        });
+    }
+
+    private applyKey(correlationId: string, db: any, key: string, callback: (err: any) => void): void {
+        if (key == null || key == "") {
+            callback(null);
+            return;
+        }
 
+        this.checkEncryption(correlationId, db, (err) => {
+            if (err) {
                 callback(err);
+                return;
+            }
+
+            // The key must be set before any access to the database
+            db.exec("PRAGMA key=" + this.quoteKey(key), (err) => {
+                if (err) {
+                    callback(new ConnectionException(correlationId, "CONNECT_FAILED", "Failed to set sqlite encryption key").withCause(err));
+                    return;
+                }
+
+                // Wrong key is only detected on the first read
+                db.get("SELECT COUNT(*) AS count FROM sqlite_master", (err) => {
+                    if (err && err.code == "SQLITE_NOTADB") {
+                        err = new UnauthorizedException(correlationId, "WRONG_KEY",
+                            "Failed to decrypt sqlite database. The encryption key is wrong or the database is not encrypted").withCause(err);
+                    } else if (err) {
+                        err = new ConnectionException(correlationId, "CONNECT_FAILED", "Connection to sqlite failed").withCause(err);
+                    }
+                    callback(err);
+                });
+            });
+        });
+    }
+
+    private configureDatabase(correlationId: string, db: any, pragmas: string[], callback: (err: any, db: any) => void): void {
+        db.configure("busyTimeout", this._options.getAsIntegerWithDefault("connect_timeout", 0));
+
+        if (this._options.getAsBoolean("debug")) {
+            db.on("trace", (sql) => {
+                this._logger.trace(correlationId, "Executing on sqlite: %s", sql);
+            });
+            db.on("profile", (sql, time) => {
+                this._logger.trace(correlationId, "Executed on sqlite in %d ms: %s", time, sql);
+            });
+        }
+
+        async.series([
+            (callback) => {
+                if (pragmas.length > 0) db.exec(pragmas.join("; "), callback);
+                else callback(null);
+            },
+            (callback) => {
+                db.get("SELECT sqlite_version() AS version", (err, result) => {
+                    if (result != null) this._sqliteVersion = result.version;
+                    callback(err);
+                });
+            }
+        ], (err) => {
+            if (err != null) {
+                err = new ConnectionException(correlationId, "CONNECT_FAILED", "Failed to configure sqlite connection").withCause(err);
+                db.close(() => callback(err, null));
+                return;
+            }
+
+            callback(null, db);
+        });
+    }
+
+    private composeFilename(config: any): string {
+        if (config.mode != "memory") return config.database;
+
+        // Shared in-memory databases must be opened by URI
+        if (config.cache == "shared") {
+            return config.database == ":memory:"
+                ? "file::memory:?cache=shared"
+                : "file:" + config.database + "?mode=memory&cache=shared";
+        }
+
+        return config.database == ":memory:" ? config.database : "file:" + config.database + "?mode=memory";
+    }
+
+    private composeOpenFlags(sqlite: any, config: any): number {
+        let flags = sqlite.OPEN_FULLMUTEX | sqlite.OPEN_URI;
+
+        if (config.mode == "ro")
+            flags |= sqlite.OPEN_READONLY;
+        else if (config.mode == "rw")
+            flags |= sqlite.OPEN_READWRITE;
+        else
+            flags |= sqlite.OPEN_READWRITE | sqlite.OPEN_CREATE;
+
+        if (config.cache == "shared")
+            flags |= sqlite.OPEN_SHAREDCACHE;
+        else if (config.cache == "private")
+            flags |= sqlite.OPEN_PRIVATECACHE;
+
+        return flags;
+    }
+
+    /**
+     * Composes PRAGMA statements from configuration options to be executed on open.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a list of PRAGMA statements.
+     * @throws a ConfigException when options have invalid values.
+     */
+    protected composePragmas(correlationId: string): string[] {
+        let pragmas: string[] = [];
+
+        let journalMode = this._options.getAsNullableString("journal_mode");
+        if (journalMode != null) {
+            journalMode = journalMode.toUpperCase();
+            if (SqliteConnection._journalModes.indexOf(journalMode) < 0)
+                throw new ConfigException(correlationId, "WRONG_JOURNAL_MODE", "Journal mode " + journalMode + " is not supported");
+            pragmas.push("PRAGMA journal_mode=" + journalMode);
+        }
+
+        let synchronous = this._options.getAsNullableString("synchronous");
+        if (synchronous != null) {
+            synchronous = synchronous.toUpperCase();
+            if (SqliteConnection._synchronousModes.indexOf(synchronous) < 0)
+                throw new ConfigException(correlationId, "WRONG_SYNCHRONOUS", "Synchronous mode " + synchronous + " is not supported");
+            pragmas.push("PRAGMA synchronous=" + synchronous);
+        }
+
+        let foreignKeys = this._options.getAsNullableBoolean("foreign_keys");
+        if (foreignKeys != null)
+            pragmas.push("PRAGMA foreign_keys=" + (foreignKeys ? "ON" : "OFF"));
+
+        let cacheSize = this._options.getAsNullableInteger("cache_size");
+        if (cacheSize != null)
+            pragmas.push("PRAGMA cache_size=" + cacheSize);
+
+        return pragmas;
+    }
+
+    /**
+     * Checks an error returned by a database operation and reopens the database
+     * when it is caused by a lost database file and auto_reconnect option is enabled.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param err               an error returned by a database operation.
+     */
+    public checkError(correlationId: string, err: any): void {
+        if (err == null || this._connection == null || this._reconnecting) return;
+        if (!this._options.getAsBooleanWithDefault("auto_reconnect", true)) return;
+        if (SqliteConnection._reconnectErrors.indexOf(err.code) < 0) return;
+
+        this._logger.warn(correlationId, "Sqlite database %s is not accessible (%s). Reconnecting...",
+            this._databaseName, err.code);
+
+        this.reconnect(correlationId, (err) => {
+            if (err) this._logger.error(correlationId, err, "Failed to reconnect to sqlite database");
+        });
+    }
+
+    /**
+     * Reopens the database file and replaces the current database handle.
+     * Any transaction in progress is lost. Old handles are closed when their running statements are completed.
+     * Listeners registered with [[addReconnectListener]] are notified about the new handle.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public reconnect(correlationId: string, callback?: (err: any) => void): void {
+        if (this._connection == null) {
+            if (callback) callback(new InvalidStateException(correlationId, 'NO_CONNECTION', 'Sqlite connection is not opened'));
+            return;
+        }
+
+        this._reconnecting = true;
+        this.openDatabases(correlationId, this._databaseConfig, (err, db, readers) => {
+            this._reconnecting = false;
+
+            if (err == null) {
+                let oldConnection = this._connection;
+                let oldReaders = this._readers;
+                this._connection = db;
+                this._readers = readers;
+                this.resetTransaction();
+                this._logger.info(correlationId, "Reconnected to sqlite database %s", this._databaseName);
+
+                this.retireHandles([oldConnection].concat(oldReaders));
+                for (let listener of this._reconnectListeners.slice()) {
+                    try {
+                        listener();
+                    } catch (ex) {
+                        this._logger.error(correlationId, ex, "Failed to notify about sqlite reconnect");
+                    }
+                }
+            }
+
+            if (callback) callback(err);
+        });
+    }
+
+    /**
+     * Adds a listener that is called after the connection replaces its database handle on reconnect.
+     * 
+     * @param listener  a function to be called after reconnect.
+     */
+    public addReconnectListener(listener: () => void): void {
+        if (this._reconnectListeners.indexOf(listener) < 0)
+            this._reconnectListeners.push(listener);
+    }
+
+    /**
+     * Removes a previously added reconnect listener.
+     * 
+     * @param listener  a listener to be removed.
+     */
+    public removeReconnectListener(listener: () => void): void {
+        let index = this._reconnectListeners.indexOf(listener);
+        if (index >= 0) this._reconnectListeners.splice(index, 1);
+    }
+
+    private useHandle(db: any): () => void {
+        this._handleUsers.set(db, (this._handleUsers.get(db) || 0) + 1);
+
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+
+            let users = this._handleUsers.get(db) - 1;
+            if (users > 0) {
+                this._handleUsers.set(db, users);
+                return;
+            }
+
+            this._handleUsers.delete(db);
+            let index = this._retiredHandles.indexOf(db);
+            if (index >= 0) {
+                this._retiredHandles.splice(index, 1);
+                db.close(() => {});
             }
+        };
+    }
+
+    private retireHandles(databases: any[]): void {
+        for (let db of databases) {
+            if (this._handleUsers.has(db))
+                this._retiredHandles.push(db);
+            else
+                db.close(() => {});
+        }
+    }
+
+    /**
+	 * Opens the component and returns a promise.
+	 * 
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the component is opened.
+     */
+    public openAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.open(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
         });
     }
 
@@ -146,25 +610,704 @@ export class SqliteConnection implements IReferenceable, IConfigurable, IOpenabl
             return;
         }
 
-        this._connection.close((err) => {
-            if (err)
-                err = new ConnectionException(correlationId, 'DISCONNECT_FAILED', 'Disconnect from sqlite failed: ') .withCause(err);
-            else
-                this._logger.debug(correlationId, "Disconnected from sqlite database %s", this._databaseName);
+        // The writer is closed last to checkpoint the WAL file
+        this.closeDatabases(this._readers, (readersErr) => {
+            this._connection.close((err) => {
+                err = err || readersErr;
+                if (err)
+                    err = new ConnectionException(correlationId, 'DISCONNECT_FAILED', 'Disconnect from sqlite failed: ') .withCause(err);
+                else
+                    this._logger.debug(correlationId, "Disconnected from sqlite database %s", this._databaseName);
 
-            this._connection = null;
-            this._databaseName = null;
-    
-            if (callback) callback(err);
+                this._connection = null;
+                this._readers = [];
+                this._databaseName = null;
+                this._sqliteVersion = null;
+                this.resetTransaction();
+        
+                if (callback) callback(err);
+            });
+        });
+    }
+
+    /**
+	 * Closes component, frees used resources and returns a promise.
+	 * 
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the component is closed.
+     */
+    public closeAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.close(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
         });
     }
 
+    /**
+     * Gets the writer database handle. It executes all modifying statements and transactions.
+     * 
+     * @returns the writer handle or null if the connection is not opened.
+     */
     public getConnection(): any {
         return this._connection;
     }
 
+    /**
+     * Gets a database handle to execute a read-only statement.
+     * Readers from the pool are returned in turn. When the caller is inside a transaction,
+     * the pool is not opened or it is reopened after the encryption key change, it returns the writer handle.
+     * 
+     * @returns a reader or the writer handle, or null if the connection is not opened.
+     */
+    public getReader(): any {
+        if (this._readers.length == 0 || this._rekeying || this.isInTransaction())
+            return this._connection;
+
+        this._nextReader = (this._nextReader + 1) % this._readers.length;
+        return this._readers[this._nextReader];
+    }
+
+    /**
+     * Gets the number of opened read-only database handles.
+     * 
+     * @returns the size of the reader pool. 0 when all statements run on the writer.
+     */
+    public getReaderCount(): number {
+        return this._readers.length;
+    }
+
     public getDatabaseName(): string {
         return this._databaseName;
     }
 
+    /**
+     * Gets the logger of the connection.
+     * Components that work with the connection can use it to log database operations.
+     * 
+     * @returns the connection logger.
+     */
+    public getLogger(): CompositeLogger {
+        return this._logger;
+    }
+
+    /**
+     * Gets the version of SQLite library used by the opened database.
+     * 
+     * @returns the SQLite version like "3.35.0" or null if the connection is not opened.
+     */
+    public getSqliteVersion(): string {
+        return this._sqliteVersion;
+    }
+
+    /**
+     * Checks if the SQLite library is at least of the given version.
+     * 
+     * @param version   a minimum version like "3.35.0".
+     * @returns true if the library version is equal or greater than the given one.
+     */
+    public isSqliteVersionAtLeast(version: string): boolean {
+        if (this._sqliteVersion == null) return false;
+
+        let actual = this._sqliteVersion.split(".").map((part) => parseInt(part));
+        let expected = version.split(".").map((part) => parseInt(part));
+
+        for (let index = 0; index < expected.length; index++) {
+            let part = actual[index] || 0;
+            if (part != expected[index]) return part > expected[index];
+        }
+
+        return true;
+    }
+
+    /**
+     * Changes the encryption key of the opened database.
+     * It requires sqlite3 module linked with SQLCipher.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param newKey            a new encryption key.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public rekey(correlationId: string, newKey: string, callback: (err: any) => void): void {
+        if (this._connection == null) {
+            callback(new InvalidStateException(correlationId, 'NO_CONNECTION', 'Sqlite connection is not opened'));
+            return;
+        }
+
+        if (newKey == null || newKey == "") {
+            callback(new ConfigException(correlationId, "NO_KEY", "New encryption key is not set"));
+            return;
+        }
+
+        this.checkEncryption(correlationId, this._connection, (err) => {
+            if (err) {
+                callback(err);
+                return;
+            }
+
+            // Readers can not decrypt the database after the key is changed, so reads go to the writer until they are reopened
+            this._rekeying = true;
+            this._connection.exec("PRAGMA rekey=" + this.quoteKey(newKey), (err) => {
+                if (err) {
+                    err = new ConnectionException(correlationId, "REKEY_FAILED", "Failed to change sqlite encryption key").withCause(err);
+                } else {
+                    // Reconnect with the new key
+                    this._databaseConfig.key = newKey;
+                    this._logger.info(correlationId, "Changed encryption key of sqlite database %s", this._databaseName);
+                }
+
+                if (err || this._readers.length == 0) {
+                    this._rekeying = false;
+                    callback(err);
+                    return;
+                }
+
+                let oldReaders = this._readers;
+                this.openReaders(correlationId, this._databaseConfig, this._connection, (err, readers) => {
+                    this._readers = readers || [];
+                    this._rekeying = false;
+                    this.retireHandles(oldReaders);
+                    callback(err);
+                });
+            });
+        });
+    }
+
+    /**
+     * Copies the database into a file while it stays available to readers and writers.
+     * 
+     * The copy is made by SQLite online backup API in small steps. The database is locked
+     * only during each step, so writers are not blocked for the whole copy. When a page is changed
+     * by another connection the copy restarts, so the result is always a consistent snapshot.
+     * When the driver has no backup API the database is copied with <code>VACUUM INTO</code> statement.
+     * 
+     * The copy is written into a temporary file next to the target and renamed when it is completed,
+     * so a failed backup never leaves a partial file at the target path.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param targetPath        a path of the backup file. An existing file is overwritten.
+     * @param progress          (optional) a function that receives numbers of copied and total pages after each step.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public backup(correlationId: string, targetPath: string, progress: (copied: number, total: number) => void,
+        callback: (err: any) => void): void {
+        if (this._connection == null) {
+            callback(new InvalidStateException(correlationId, 'NO_CONNECTION', 'Sqlite connection is not opened'));
+            return;
+        }
+
+        let tempPath = targetPath + ".tmp";
+        try {
+            // VACUUM INTO fails when the file exists
+            fs.rmSync(tempPath, { force: true });
+        } catch (ex) {
+            callback(new ConnectionException(correlationId, "BACKUP_FAILED", "Failed to back up sqlite database").withCause(ex));
+            return;
+        }
+
+        let done = (err) => {
+            if (err == null) {
+                try {
+                    fs.renameSync(tempPath, targetPath);
+                } catch (ex) {
+                    err = ex;
+                }
+            }
+
+            if (err) {
+                try {
+                    fs.rmSync(tempPath, { force: true });
+                } catch (ex) {
+                    this._logger.error(correlationId, ex, "Failed to remove incomplete backup %s", tempPath);
+                }
+                err = new ConnectionException(correlationId, "BACKUP_FAILED", "Failed to back up sqlite database").withCause(err);
+            } else {
+                this._logger.info(correlationId, "Backed up sqlite database %s to %s", this._databaseName, targetPath);
+            }
+            callback(err);
+        };
+
+        if (typeof this._connection.backup != "function") {
+            // The copy does not include uncommitted changes of running transactions
+            this.acquireHandle(correlationId, false, (err, db, release) => {
+                if (err) {
+                    done(err);
+                    return;
+                }
+
+                db.run("VACUUM INTO ?", [tempPath], (err) => {
+                    release();
+                    if (err == null && progress) progress(1, 1);
+                    done(err);
+                });
+            });
+            return;
+        }
+
+        let stepPages = this._options.getAsIntegerWithDefault("backup_step_pages", 100);
+        let stepDelay = this._options.getAsIntegerWithDefault("backup_step_delay", 10);
+        let backup = this._connection.backup(tempPath);
+
+        let step = () => {
+            // Steps do not copy uncommitted changes of running transactions
+            this.acquireHandle(correlationId, false, (err, db, release) => {
+                if (err) {
+                    backup.finish(() => done(err));
+                    return;
+                }
+
+                backup.step(stepPages, (err) => {
+                    release();
+
+                    // The driver keeps the backup open after busy and locked errors, so the step is repeated later
+                    if (err != null && (err.code == "SQLITE_BUSY" || err.code == "SQLITE_LOCKED") && !backup.failed) {
+                        this._logger.trace(correlationId, "Backup of sqlite database %s is waiting for %s", this._databaseName, err.code);
+                        setTimeout(step, stepDelay);
+                        return;
+                    }
+
+                    if (err == null && !backup.completed && !backup.failed) {
+                        if (progress && backup.pageCount > 0) progress(backup.pageCount - backup.remaining, backup.pageCount);
+                        setTimeout(step, stepDelay);
+                        return;
+                    }
+
+                    backup.finish(() => {
+                        if (err == null && progress) progress(backup.pageCount, backup.pageCount);
+                        done(err);
+                    });
+                });
+            });
+        };
+        step();
+    }
+
+    /**
+     * Copies the database into a file and returns a promise.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param targetPath        a path of the backup file. An existing file is overwritten.
+     * @param progress          (optional) a function that receives numbers of copied and total pages after each step.
+     * @returns a promise that is resolved when the backup is completed.
+     */
+    public backupAsync(correlationId: string, targetPath: string, progress?: (copied: number, total: number) => void): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.backup(correlationId, targetPath, progress, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    /**
+     * Replaces content of the opened database with a backup file.
+     * 
+     * The content is replaced in a single step, so other connections never see a partially restored database.
+     * It waits until running transactions are completed and can not be called inside a transaction.
+     * It requires the driver with SQLite online backup API.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param sourcePath        a path of the backup file.
+     * @param progress          (optional) a function that receives numbers of copied and total pages.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public restore(correlationId: string, sourcePath: string, progress: (copied: number, total: number) => void,
+        callback: (err: any) => void): void {
+        if (this._connection == null) {
+            callback(new InvalidStateException(correlationId, 'NO_CONNECTION', 'Sqlite connection is not opened'));
+            return;
+        }
+
+        if (this.isInTransaction()) {
+            callback(new InvalidStateException(correlationId, 'TRANSACTION_IN_PROGRESS', 'Sqlite database can not be restored inside a transaction'));
+            return;
+        }
+
+        if (typeof this._connection.backup != "function") {
+            callback(new InvalidStateException(correlationId, 'RESTORE_NOT_SUPPORTED', 'Sqlite driver does not support backup API'));
+            return;
+        }
+
+        // SQLite creates a missing file and restores an empty database from it
+        if (!fs.existsSync(sourcePath)) {
+            callback(new NotFoundException(correlationId, 'BACKUP_NOT_FOUND', 'Backup file ' + sourcePath + ' is not found')
+                .withDetails("path", sourcePath));
+            return;
+        }
+
+        this.acquireHandle(correlationId, false, (err, db, release) => {
+            if (err) {
+                callback(err);
+                return;
+            }
+
+            let restore = db.backup(sourcePath, "main", "main", false);
+            restore.step(-1, (err) => {
+                restore.finish(() => {
+                    release();
+
+                    if (err) {
+                        err = new ConnectionException(correlationId, "RESTORE_FAILED", "Failed to restore sqlite database").withCause(err);
+                    } else {
+                        if (progress) progress(restore.pageCount, restore.pageCount);
+                        this._logger.info(correlationId, "Restored sqlite database %s from %s", this._databaseName, sourcePath);
+                    }
+                    callback(err);
+                });
+            });
+        });
+    }
+
+    /**
+     * Replaces content of the opened database with a backup file and returns a promise.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param sourcePath        a path of the backup file.
+     * @param progress          (optional) a function that receives numbers of copied and total pages.
+     * @returns a promise that is resolved when the database is restored.
+     */
+    public restoreAsync(correlationId: string, sourcePath: string, progress?: (copied: number, total: number) => void): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.restore(correlationId, sourcePath, progress, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    /**
+     * Checks if the caller runs inside a transaction, i.e. it is called from the action
+     * of [[withTransaction]] or from the callback chain of [[beginTransaction]].
+     * 
+     * @returns true if the caller's transaction has been started and not yet completed.
+     */
+    public isInTransaction(): boolean {
+        return this._transaction != null && this._transactionStorage.getStore() === this._transaction;
+    }
+
+    /**
+     * Checks if any transaction is running on the connection, including transactions of other callers.
+     * 
+     * @returns true if a transaction is running and false otherwise.
+     */
+    public isTransactionRunning(): boolean {
+        return this._transaction != null;
+    }
+
+    /**
+     * Gets the number of currently open (nested) transactions of the caller.
+     * 
+     * @returns the transaction nesting level. 0 when the caller is not inside a transaction.
+     */
+    public getTransactionLevel(): number {
+        return this.isInTransaction() ? this._transactionLevel : 0;
+    }
+
+    private lockWriter(exclusive: boolean, grant: (transaction: any) => void): void {
+        // Waiters are resumed in their own async context
+        this._writerQueue.push({ exclusive: exclusive, grant: AsyncResource.bind(grant) });
+        this.grantWriter();
+    }
+
+    private grantWriter(): void {
+        while (this._writerQueue.length > 0 && this._transaction == null) {
+            let waiter = this._writerQueue[0];
+            // A transaction waits for running statements, later statements wait for the transaction
+            if (waiter.exclusive && this._writerUsers > 0) return;
+
+            this._writerQueue.shift();
+            if (waiter.exclusive) {
+                this._transaction = {};
+                waiter.grant(this._transaction);
+            } else {
+                this._writerUsers++;
+                waiter.grant(null);
+            }
+        }
+    }
+
+    private unlockWriter(): void {
+        this._writerUsers--;
+        this.grantWriter();
+    }
+
+    private resetTransaction(): void {
+        this._transaction = null;
+        this._transactionLevel = 0;
+        this._commitActions = [];
+        this.grantWriter();
+    }
+
+    /**
+     * Acquires a database handle to execute a statement. Read-only statements run on the reader pool
+     * when it is opened. Statements of the caller's transaction run on the writer immediately.
+     * Other statements wait until a running transaction is completed.
+     * The handle must be released when the statement is completed.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param readOnly          true if the statement only reads data.
+     * @param callback          callback function that receives the handle and a function to release it, or error.
+     */
+    public acquireHandle(correlationId: string, readOnly: boolean,
+        callback: (err: any, db: any, release: () => void) => void): void {
+        if (this._connection == null) {
+            callback(new InvalidStateException(correlationId, 'NO_CONNECTION', 'Sqlite connection is not opened'), null, null);
+            return;
+        }
+
+        if (readOnly) {
+            let reader = this.getReader();
+            if (reader !== this._connection) {
+                callback(null, reader, this.useHandle(reader));
+                return;
+            }
+        }
+
+        if (this.isInTransaction()) {
+            callback(null, this._connection, this.useHandle(this._connection));
+            return;
+        }
+
+        this.lockWriter(false, () => {
+            if (this._connection == null) {
+                this.unlockWriter();
+                callback(new InvalidStateException(correlationId, 'NO_CONNECTION', 'Sqlite connection is not opened'), null, null);
+                return;
+            }
+
+            let db = this._connection;
+            let releaseHandle = this.useHandle(db);
+            let released = false;
+            let release = () => {
+                if (released) return;
+                released = true;
+                releaseHandle();
+                this.unlockWriter();
+            };
+
+            callback(null, db, release);
+        });
+    }
+
+    private executeTransactionStatement(correlationId: string, statement: string, callback: (err: any) => void): void {
+        if (this._connection == null) {
+            callback(new InvalidStateException(correlationId, 'NO_CONNECTION', 'Sqlite connection is not opened'));
+            return;
+        }
+
+        this._connection.exec(statement, (err) => {
+            if (!err)
+                this._logger.trace(correlationId, "Executed %s on sqlite database %s", statement, this._databaseName);
+
+            callback(SqliteErrorTranslator.translate(correlationId, err));
+        });
+    }
+
+    /**
+     * Begins a new transaction. When the caller is already inside a transaction
+     * it creates a nested savepoint inside it. Otherwise the transaction waits
+     * until other running transactions are completed.
+     * 
+     * Only calls made from the callback chain of this method join the transaction.
+     * Use [[withTransaction]] to run promise-based code inside a transaction.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public beginTransaction(correlationId: string, callback: (err: any) => void): void {
+        if (this.isInTransaction()) {
+            this.executeTransactionStatement(correlationId, "SAVEPOINT sp_" + this._transactionLevel, (err) => {
+                if (err == null) {
+                    this._transactionLevel++;
+                    this._commitActions.push([]);
+                }
+                callback(err);
+            });
+            return;
+        }
+
+        this.lockWriter(true, (transaction) => {
+            this.executeTransactionStatement(correlationId, "BEGIN TRANSACTION", (err) => {
+                // The connection could be closed or reopened while the transaction was waiting
+                if (this._transaction !== transaction) {
+                    callback(err || new InvalidStateException(correlationId, 'NO_CONNECTION', 'Sqlite connection was closed'));
+                    return;
+                }
+
+                if (err) {
+                    this.resetTransaction();
+                    callback(err);
+                    return;
+                }
+
+                this._transactionLevel = 1;
+                this._commitActions = [[]];
+                this._transactionStorage.enterWith(transaction);
+                callback(null);
+            });
+        });
+    }
+
+    /**
+     * Commits the caller's transaction or releases the current nested savepoint.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public commitTransaction(correlationId: string, callback: (err: any) => void): void {
+        if (!this.isInTransaction()) {
+            callback(new InvalidStateException(correlationId, 'NO_TRANSACTION', 'Sqlite transaction is not started'));
+            return;
+        }
+
+        let statement = this._transactionLevel == 1
+            ? "COMMIT TRANSACTION"
+            : "RELEASE SAVEPOINT sp_" + (this._transactionLevel - 1);
+
+        this.executeTransactionStatement(correlationId, statement, (err) => {
+            if (err == null) {
+                this._transactionLevel--;
+
+                // Actions of a released savepoint wait for the outer transaction
+                let actions = this._commitActions.pop() || [];
+                if (this._transactionLevel > 0) {
+                    this._commitActions[this._commitActions.length - 1].push(...actions);
+                } else {
+                    this.resetTransaction();
+                    this.runCommitActions(correlationId, actions);
+                }
+            }
+            callback(err);
+        });
+    }
+
+    /**
+     * Rolls back the caller's transaction or the current nested savepoint.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public rollbackTransaction(correlationId: string, callback: (err: any) => void): void {
+        if (!this.isInTransaction()) {
+            callback(new InvalidStateException(correlationId, 'NO_TRANSACTION', 'Sqlite transaction is not started'));
+            return;
+        }
+
+        let statement = this._transactionLevel == 1
+            ? "ROLLBACK TRANSACTION"
+            : "ROLLBACK TO SAVEPOINT sp_" + (this._transactionLevel - 1)
+                + "; RELEASE SAVEPOINT sp_" + (this._transactionLevel - 1);
+
+        this.executeTransactionStatement(correlationId, statement, (err) => {
+            // The transaction is over even if rollback failed
+            this._transactionLevel--;
+            this._commitActions.pop();
+            if (this._transactionLevel == 0)
+                this.resetTransaction();
+            callback(err);
+        });
+    }
+
+    /**
+     * Defers an action until the caller's transaction is committed.
+     * When the caller is not inside a transaction the action is executed immediately.
+     * Actions of rolled back transactions and savepoints are discarded.
+     * 
+     * @param action    an action to be executed after commit.
+     */
+    public afterCommit(action: () => void): void {
+        if (!this.isInTransaction() || this._commitActions.length == 0) {
+            this.runCommitActions(null, [action]);
+            return;
+        }
+
+        this._commitActions[this._commitActions.length - 1].push(action);
+    }
+
+    private runCommitActions(correlationId: string, actions: (() => void)[]): void {
+        for (let action of actions) {
+            try {
+                action();
+            } catch (ex) {
+                this._logger.error(correlationId, ex, "Failed to execute action after commit");
+            }
+        }
+    }
+
+    /**
+     * Executes an action inside a transaction. The transaction is committed
+     * when the action succeeds and rolled back when it fails.
+     * When the caller is not inside a transaction, the transaction waits until
+     * other running transactions are completed.
+     * 
+     * The action can either call the received callback or return a promise.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param action            an action to be executed inside the transaction.
+     * @param callback 			callback function that receives action result or error.
+     */
+    public withTransaction(correlationId: string,
+        action: (callback: (err: any, result?: any) => void) => void | Promise<any>,
+        callback?: (err: any, result: any) => void): void {
+
+        this.beginTransaction(correlationId, (err) => {
+            if (err) {
+                if (callback) callback(err, null);
+                return;
+            }
+
+            let completed = false;
+            let complete = (err: any, result?: any) => {
+                // Protect from double completion
+                if (completed) return;
+                completed = true;
+
+                if (err) {
+                    this.rollbackTransaction(correlationId, (rollbackErr) => {
+                        if (rollbackErr)
+                            this._logger.error(correlationId, rollbackErr, "Failed to rollback sqlite transaction");
+                        if (callback) callback(err, null);
+                    });
+                } else {
+                    this.commitTransaction(correlationId, (err) => {
+                        if (err) {
+                            // Do not leave the failed transaction open
+                            this.rollbackTransaction(correlationId, () => {
+                                if (callback) callback(err, null);
+                            });
+                            return;
+                        }
+                        if (callback) callback(null, result);
+                    });
+                }
+            };
+
+            try {
+                let promise: any = action(complete);
+                if (promise != null && typeof promise.then == 'function')
+                    promise.then((result) => complete(null, result), (err) => complete(err || new Error('Transaction failed')));
+            } catch (ex) {
+                complete(ex);
+            }
+        });
+    }
+
+    /**
+     * Executes a promise-returning action inside a transaction. The transaction is committed
+     * when the action succeeds and rolled back when it fails.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param action            an action to be executed inside the transaction.
+     * @returns a promise that receives the action result.
+     */
+    public withTransactionAsync<R>(correlationId: string, action: () => Promise<R>): Promise<R> {
+        return new Promise((resolve, reject) => {
+            this.withTransaction(correlationId, () => action(), (err, result) => {
+                if (err) reject(err);
+                else resolve(result);
+            });
+        });
+    }
+
 }
@@ -0,0 +1,41 @@
+/** @module persistence */
+
+/**
+ * Page of data items retrieved with keyset (cursor) pagination.
+ *
+ * Unlike DataPage it carries no total count. Instead it returns an opaque
+ * continuation token that shall be passed to the next call to retrieve the following page.
+ * The token is null when there are no more items.
+ *
+ * @see [[IdentifiableSqlitePersistence.getCursorPageByFilter]]
+ */
+export class SqliteCursorPage<T> {
+    /**
+     * The data items retrieved for the page.
+     */
+    public data: T[];
+    /**
+     * The continuation token for the next page or null if this page is the last one.
+     */
+    public next: string;
+
+    /**
+     * Creates a new instance of the cursor page.
+     *
+     * @param data      data items retrieved for the page.
+     * @param next      (optional) a continuation token for the next page.
+     */
+    public constructor(data: T[], next?: string) {
+        this.data = data || [];
+        this.next = next || null;
+    }
+
+    /**
+     * Checks if there are more items after this page.
+     *
+     * @returns true if the next page can be retrieved and false otherwise.
+     */
+    public hasNext(): boolean {
+        return this.next != null;
+    }
+}
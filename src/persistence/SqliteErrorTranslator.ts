@@ -0,0 +1,108 @@
+/** @module persistence */
+
+import { ApplicationException } from 'pip-services3-commons-node';
+import { BadRequestException } from 'pip-services3-commons-node';
+import { ConflictException } from 'pip-services3-commons-node';
+import { ConnectionException } from 'pip-services3-commons-node';
+import { FileException } from 'pip-services3-commons-node';
+import { InternalException } from 'pip-services3-commons-node';
+import { InvalidStateException } from 'pip-services3-commons-node';
+import { UnauthorizedException } from 'pip-services3-commons-node';
+
+/**
+ * Translates errors returned by sqlite3 driver into typed application exceptions,
+ * so callers can handle them by category and REST services return proper HTTP statuses.
+ *
+ * - SQLITE_CONSTRAINT on UNIQUE or PRIMARY KEY:     ConflictException DUPLICATE_KEY
+ * - SQLITE_CONSTRAINT on FOREIGN KEY:               BadRequestException INVALID_REFERENCE
+ * - SQLITE_CONSTRAINT on NOT NULL:                  BadRequestException MISSING_VALUE
+ * - other SQLITE_CONSTRAINT, SQLITE_MISMATCH, SQLITE_TOOBIG, SQLITE_RANGE: BadRequestException INVALID_VALUE
+ * - SQLITE_BUSY, SQLITE_LOCKED:                     ConnectionException DATABASE_BUSY with HTTP status 503
+ * - SQLITE_CANTOPEN, SQLITE_IOERR:                  ConnectionException CONNECT_FAILED
+ * - SQLITE_READONLY:                                InvalidStateException DATABASE_READONLY
+ * - SQLITE_FULL:                                    FileException DATABASE_FULL
+ * - SQLITE_CORRUPT, SQLITE_NOTADB:                  FileException DATABASE_CORRUPTED
+ * - SQLITE_AUTH, SQLITE_PERM:                       UnauthorizedException ACCESS_DENIED
+ * - other errors, like SQL syntax errors:           InternalException SQL_ERROR
+ *
+ * Exceptions keep the original message and the SQLite code in <code>sqlite_code</code> detail.
+ * Application exceptions and errors that do not come from SQLite are returned without changes.
+ *
+ * ### Example ###
+ *
+ *     connection.getConnection().run(query, params, (err) => {
+ *         err = SqliteErrorTranslator.translate(correlationId, err);
+ *         ...
+ *     });
+ */
+export class SqliteErrorTranslator {
+
+    /**
+     * Translates an error returned by sqlite3 driver into an application exception.
+     *
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param err               an error to translate.
+     * @returns an application exception, the original error if it does not come from SQLite, or null if there was no error.
+     */
+    public static translate(correlationId: string, err: any): any {
+        if (err == null) return null;
+        if (err instanceof ApplicationException) return err;
+
+        let sqliteCode: string = err.code;
+        if (typeof sqliteCode != "string" || sqliteCode.indexOf("SQLITE_") != 0)
+            return err;
+
+        let message: string = err.message || sqliteCode;
+        let result: ApplicationException;
+
+        switch (sqliteCode) {
+            case "SQLITE_CONSTRAINT":
+                result = SqliteErrorTranslator.translateConstraint(correlationId, message);
+                break;
+            case "SQLITE_MISMATCH":
+            case "SQLITE_TOOBIG":
+            case "SQLITE_RANGE":
+                result = new BadRequestException(correlationId, "INVALID_VALUE", message);
+                break;
+            case "SQLITE_BUSY":
+            case "SQLITE_LOCKED":
+                // The operation can succeed when it is repeated later
+                result = new ConnectionException(correlationId, "DATABASE_BUSY", message).withStatus(503);
+                break;
+            case "SQLITE_CANTOPEN":
+            case "SQLITE_IOERR":
+                result = new ConnectionException(correlationId, "CONNECT_FAILED", message);
+                break;
+            case "SQLITE_READONLY":
+                result = new InvalidStateException(correlationId, "DATABASE_READONLY", message);
+                break;
+            case "SQLITE_FULL":
+                result = new FileException(correlationId, "DATABASE_FULL", message);
+                break;
+            case "SQLITE_CORRUPT":
+            case "SQLITE_NOTADB":
+                result = new FileException(correlationId, "DATABASE_CORRUPTED", message);
+                break;
+            case "SQLITE_AUTH":
+            case "SQLITE_PERM":
+                result = new UnauthorizedException(correlationId, "ACCESS_DENIED", message);
+                break;
+            default:
+                result = new InternalException(correlationId, "SQL_ERROR", message);
+                break;
+        }
+
+        return result.withDetails("sqlite_code", sqliteCode).withCause(err);
+    }
+
+    private static translateConstraint(correlationId: string, message: string): ApplicationException {
+        // The driver does not expose extended result codes, so the kind of constraint is taken from the message
+        if (message.indexOf("UNIQUE constraint failed") >= 0 || message.indexOf("PRIMARY KEY") >= 0)
+            return new ConflictException(correlationId, "DUPLICATE_KEY", message);
+        if (message.indexOf("FOREIGN KEY constraint failed") >= 0)
+            return new BadRequestException(correlationId, "INVALID_REFERENCE", message);
+        if (message.indexOf("NOT NULL constraint failed") >= 0)
+            return new BadRequestException(correlationId, "MISSING_VALUE", message);
+        return new BadRequestException(correlationId, "INVALID_VALUE", message);
+    }
+}
@@ -0,0 +1,86 @@
+/** @module persistence */
+/** @hidden */
+const _ = require('lodash');
+
+/**
+ * Parameterized filter condition for SQLite queries.
+ *
+ * The condition is a SQL expression for <code>WHERE</code> clause with <code>?</code> placeholders.
+ * Values for the placeholders are passed separately and bound by sqlite3 driver,
+ * so they never become a part of the SQL text.
+ *
+ * Filters are accepted by getPageByFilter, getListByFilter, getCountByFilter,
+ * getOneRandom and deleteByFilter methods of [[SqlitePersistence]] along with raw condition strings.
+ *
+ * ### Example ###
+ *
+ *     let filter = new SqliteFilter();
+ *     filter.append('"key"=?', key);
+ *     filter.append('"created" > ?', fromTime);
+ *
+ *     super.getPageByFilter(correlationId, filter, paging, null, null, callback);
+ */
+export class SqliteFilter {
+    /**
+     * The filter condition with <code>?</code> placeholders.
+     */
+    public condition: string;
+    /**
+     * The values bound to the condition placeholders.
+     */
+    public params: any[];
+
+    /**
+     * Creates a new instance of the filter.
+     *
+     * @param condition     (optional) a filter condition with <code>?</code> placeholders.
+     * @param params        (optional) values bound to the placeholders.
+     */
+    public constructor(condition?: string, params?: any[]) {
+        this.condition = condition || null;
+        this.params = params || [];
+    }
+
+    /**
+     * Checks if the filter has no condition.
+     *
+     * @returns true if the filter is empty and false otherwise.
+     */
+    public isEmpty(): boolean {
+        return this.condition == null || this.condition == "";
+    }
+
+    /**
+     * Appends a condition to the filter using AND operator.
+     *
+     * @param condition     a condition with <code>?</code> placeholders.
+     * @param params        values bound to the placeholders.
+     * @returns this filter to chain calls.
+     */
+    public append(condition: string, ...params: any[]): SqliteFilter {
+        if (condition == null || condition == "") return this;
+
+        if (this.isEmpty())
+            this.condition = condition;
+        else
+            this.condition = "(" + this.condition + ") AND (" + condition + ")";
+
+        this.params.push(...params);
+        return this;
+    }
+
+    /**
+     * Converts a filter value into SqliteFilter.
+     * The value can be a raw condition string, a SqliteFilter or any object
+     * with <code>condition</code> and <code>params</code> properties.
+     *
+     * @param value     a filter value to convert.
+     * @returns a converted filter. It is never null.
+     */
+    public static fromValue(value: any): SqliteFilter {
+        if (value instanceof SqliteFilter) return value;
+        if (value == null || value == "") return new SqliteFilter();
+        if (_.isString(value)) return new SqliteFilter(value);
+        return new SqliteFilter(value.condition, value.params);
+    }
+}
@@ -0,0 +1,149 @@
+/** @module persistence */
+/** @hidden */
+const _ = require('lodash');
+
+/**
+ * Set of update operations over fields of a JSON document.
+ *
+ * Fields are referenced by names in dotted notation, so nested fields can be changed
+ * without rewriting their parents. All operations are applied in a single statement by
+ * [[IdentifiableJsonSqlitePersistence.updateDocument]].
+ *
+ * ### Example ###
+ *
+ *     let update = new SqliteJsonUpdate()
+ *         .set("address.city", "Boston")
+ *         .unset("address.zip")
+ *         .inc("visits", 1)
+ *         .push("tags", "new")
+ *         .pull("tags", "old");
+ *
+ *     persistence.updateDocument("123", "1", update, (err, item) => {
+ *         ...
+ *     });
+ */
+export class SqliteJsonUpdate {
+    /**
+     * The operation that sets a field value.
+     */
+    public static readonly Set: string = "set";
+    /**
+     * The operation that removes a field.
+     */
+    public static readonly Unset: string = "unset";
+    /**
+     * The operation that increments a numeric field.
+     */
+    public static readonly Inc: string = "inc";
+    /**
+     * The operation that appends values to an array field.
+     */
+    public static readonly Push: string = "push";
+    /**
+     * The operation that removes values from an array field.
+     */
+    public static readonly Pull: string = "pull";
+
+    /**
+     * The update operations in the order they were added.
+     */
+    public operations: { type: string, path: string, values: any[] }[] = [];
+
+    /**
+     * Checks if the update has no operations.
+     *
+     * @returns true if the update is empty and false otherwise.
+     */
+    public isEmpty(): boolean {
+        return this.operations.length == 0;
+    }
+
+    /**
+     * Sets a field value. Missing parent objects are created.
+     *
+     * @param path      a field name in dotted notation.
+     * @param value     a value to set. It can be any JSON value including objects and arrays.
+     * @returns this update to chain calls.
+     */
+    public set(path: string, value: any): SqliteJsonUpdate {
+        return this.add(SqliteJsonUpdate.Set, path, [value]);
+    }
+
+    /**
+     * Removes a field.
+     *
+     * @param path      a field name in dotted notation.
+     * @returns this update to chain calls.
+     */
+    public unset(path: string): SqliteJsonUpdate {
+        return this.add(SqliteJsonUpdate.Unset, path, []);
+    }
+
+    /**
+     * Increments a numeric field. Missing fields are treated as 0.
+     *
+     * @param path      a field name in dotted notation.
+     * @param amount    (optional) an amount to add. It can be negative (default: 1).
+     * @returns this update to chain calls.
+     */
+    public inc(path: string, amount: number = 1): SqliteJsonUpdate {
+        return this.add(SqliteJsonUpdate.Inc, path, [amount]);
+    }
+
+    /**
+     * Appends values to the end of an array field. Missing arrays are created.
+     *
+     * @param path      a field name in dotted notation.
+     * @param values    values to append.
+     * @returns this update to chain calls.
+     */
+    public push(path: string, ...values: any[]): SqliteJsonUpdate {
+        return this.add(SqliteJsonUpdate.Push, path, values);
+    }
+
+    /**
+     * Removes all elements equal to any of the values from an array field.
+     * Objects are compared by their JSON representation, so their keys must be in the same order.
+     *
+     * @param path      a field name in dotted notation.
+     * @param values    values to remove.
+     * @returns this update to chain calls.
+     */
+    public pull(path: string, ...values: any[]): SqliteJsonUpdate {
+        return this.add(SqliteJsonUpdate.Pull, path, values);
+    }
+
+    private add(type: string, path: string, values: any[]): SqliteJsonUpdate {
+        // Repeated push and pull operations on the same array are merged
+        let operation = _.find(this.operations, (operation) => operation.type == type && operation.path == path);
+        if (operation != null && (type == SqliteJsonUpdate.Push || type == SqliteJsonUpdate.Pull))
+            operation.values.push(...values);
+        else
+            this.operations.push({ type: type, path: path, values: values });
+
+        return this;
+    }
+
+    /**
+     * Converts a value into SqliteJsonUpdate.
+     * The value can be a SqliteJsonUpdate or an object with operations as properties:
+     * <code>{ set: { path: value }, unset: [path], inc: { path: amount }, push: { path: value }, pull: { path: value } }</code>.
+     *
+     * @param value     an update value to convert.
+     * @returns a converted update. It is never null.
+     */
+    public static fromValue(value: any): SqliteJsonUpdate {
+        if (value instanceof SqliteJsonUpdate) return value;
+
+        let result = new SqliteJsonUpdate();
+        if (value == null) return result;
+
+        _.each(value.set, (value, path) => result.set(path, value));
+        _.each(_.isArray(value.unset) ? value.unset : _.keys(value.unset), (path) => result.unset(path));
+        _.each(value.inc, (amount, path) => result.inc(path, amount));
+        _.each(value.push, (value, path) => result.push(path, value));
+        _.each(value.pull, (value, path) => result.pull(path, value));
+
+        return result;
+    }
+}
@@ -0,0 +1,536 @@
+/** @module persistence */
+const _ = require('lodash');
+const async = require('async');
+
+import { IReferenceable } from 'pip-services3-commons-node';
+import { IUnreferenceable } from 'pip-services3-commons-node';
+import { IReferences } from 'pip-services3-commons-node';
+import { IConfigurable } from 'pip-services3-commons-node';
+import { IOpenable } from 'pip-services3-commons-node';
+import { ConfigParams } from 'pip-services3-commons-node';
+import { ConfigException } from 'pip-services3-commons-node';
+import { InvalidStateException } from 'pip-services3-commons-node';
+import { DependencyResolver } from 'pip-services3-commons-node';
+import { FixedRateTimer } from 'pip-services3-commons-node';
+
+import { SqliteConnection } from './SqliteConnection';
+import { SqliteErrorTranslator } from './SqliteErrorTranslator';
+
+/**
+ * Component that keeps a SQLite database in shape by periodically running maintenance tasks:
+ * <code>PRAGMA optimize</code>, <code>ANALYZE</code>, incremental or full <code>VACUUM</code>,
+ * WAL checkpoint and integrity check. All tasks can also be run on demand.
+ *
+ * Results are logged through the logger of the referenced connection.
+ * Scheduled runs are skipped while a transaction is in progress on the connection.
+ * Tasks called directly wait until running transactions are completed.
+ *
+ * ### Configuration parameters ###
+ *
+ * - options:
+ *   - interval:              (optional) number of milliseconds between maintenance runs, 0 to disable the timer (default: 3600000)
+ *   - optimize:              (optional) true to run PRAGMA optimize (default: true)
+ *   - analyze:               (optional) true to run ANALYZE (default: false)
+ *   - vacuum:                (optional) vacuum mode: none, incremental or full (default: none).
+ *                            Incremental mode requires the database created with auto_vacuum=INCREMENTAL
+ *   - vacuum_pages:          (optional) maximum number of pages freed by incremental vacuum, 0 to free all (default: 0)
+ *   - checkpoint:            (optional) true to run wal_checkpoint(TRUNCATE) (default: true)
+ *   - integrity_check:       (optional) integrity check mode: none, quick or full (default: quick)
+ *
+ * ### References ###
+ *
+ * - <code>\*:connection:sqlite:\*:1.0</code>   [[SqliteConnection]] to the maintained database
+ *
+ * ### Example ###
+ *
+ *     let maintenance = new SqliteMaintenance();
+ *     maintenance.configure(ConfigParams.fromTuples(
+ *         "options.interval", 3600000,
+ *         "options.vacuum", "incremental"
+ *     ));
+ *     maintenance.setReferences(References.fromTuples(
+ *         new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+ *     ));
+ *
+ *     maintenance.open("123", (err) => {
+ *         ...
+ *     });
+ *
+ *     maintenance.checkIntegrity("123", false, (err, problems) => {
+ *         console.log(problems);               // Result: []
+ *     });
+ */
+export class SqliteMaintenance implements IReferenceable, IUnreferenceable, IConfigurable, IOpenable {
+
+    private static _defaultConfig: ConfigParams = ConfigParams.fromTuples(
+        "dependencies.connection", "*:connection:sqlite:*:1.0",
+
+        "options.interval", 3600000,
+        "options.optimize", true,
+        "options.analyze", false,
+        "options.vacuum", "none",
+        "options.vacuum_pages", 0,
+        "options.checkpoint", true,
+        "options.integrity_check", "quick"
+    );
+
+    private static readonly _vacuumModes: string[] = ["none", "incremental", "full"];
+    private static readonly _integrityCheckModes: string[] = ["none", "quick", "full"];
+
+    private _timer: FixedRateTimer;
+    private _opened: boolean = false;
+    private _running: boolean = false;
+
+    /**
+     * The dependency resolver.
+     */
+    protected _dependencyResolver: DependencyResolver = new DependencyResolver(SqliteMaintenance._defaultConfig);
+    /**
+     * The SQLite connection component.
+     */
+    protected _connection: SqliteConnection;
+
+    /**
+     * The number of milliseconds between maintenance runs.
+     */
+    protected _interval: number = 3600000;
+    /**
+     * The flag to run PRAGMA optimize.
+     */
+    protected _optimize: boolean = true;
+    /**
+     * The flag to run ANALYZE.
+     */
+    protected _analyze: boolean = false;
+    /**
+     * The vacuum mode: none, incremental or full.
+     */
+    protected _vacuum: string = "none";
+    /**
+     * The maximum number of pages freed by incremental vacuum.
+     */
+    protected _vacuumPages: number = 0;
+    /**
+     * The flag to run WAL checkpoint.
+     */
+    protected _checkpoint: boolean = true;
+    /**
+     * The integrity check mode: none, quick or full.
+     */
+    protected _integrityCheck: string = "quick";
+
+    /**
+     * Configures component by passing configuration parameters.
+     *
+     * @param config    configuration parameters to be set.
+     */
+    public configure(config: ConfigParams): void {
+        config = config.setDefaults(SqliteMaintenance._defaultConfig);
+
+        this._dependencyResolver.configure(config);
+
+        this._interval = config.getAsIntegerWithDefault("options.interval", this._interval);
+        this._optimize = config.getAsBooleanWithDefault("options.optimize", this._optimize);
+        this._analyze = config.getAsBooleanWithDefault("options.analyze", this._analyze);
+        this._vacuum = config.getAsStringWithDefault("options.vacuum", this._vacuum).toLowerCase();
+        this._vacuumPages = config.getAsIntegerWithDefault("options.vacuum_pages", this._vacuumPages);
+        this._checkpoint = config.getAsBooleanWithDefault("options.checkpoint", this._checkpoint);
+        this._integrityCheck = config.getAsStringWithDefault("options.integrity_check", this._integrityCheck).toLowerCase();
+    }
+
+    /**
+	 * Sets references to dependent components.
+	 *
+	 * @param references 	references to locate the component dependencies.
+     */
+    public setReferences(references: IReferences): void {
+        this._dependencyResolver.setReferences(references);
+        this._connection = this._dependencyResolver.getOneRequired<SqliteConnection>('connection');
+    }
+
+    /**
+	 * Unsets (clears) previously set references to dependent components.
+     */
+    public unsetReferences(): void {
+        this._connection = null;
+    }
+
+    /**
+	 * Checks if the component is opened.
+	 *
+	 * @returns true if the component has been opened and false otherwise.
+     */
+    public isOpen(): boolean {
+        return this._opened;
+    }
+
+    /**
+	 * Opens the component and starts periodic maintenance.
+	 *
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback that receives error or null no errors occured.
+     */
+    public open(correlationId: string, callback?: (err: any) => void): void {
+        if (this._opened) {
+            if (callback) callback(null);
+            return;
+        }
+
+        if (SqliteMaintenance._vacuumModes.indexOf(this._vacuum) < 0) {
+            if (callback) callback(new ConfigException(correlationId, "WRONG_VACUUM_MODE", "Vacuum mode " + this._vacuum + " is not supported")
+                .withDetails("vacuum", this._vacuum));
+            return;
+        }
+
+        if (SqliteMaintenance._integrityCheckModes.indexOf(this._integrityCheck) < 0) {
+            if (callback) callback(new ConfigException(correlationId, "WRONG_INTEGRITY_CHECK_MODE", "Integrity check mode " + this._integrityCheck + " is not supported")
+                .withDetails("integrity_check", this._integrityCheck));
+            return;
+        }
+
+        if (this._interval > 0) {
+            this._timer = new FixedRateTimer(() => {
+                this.maintain(correlationId, (err) => {
+                    if (err && this._connection)
+                        this._connection.getLogger().error(correlationId, err, "Failed to maintain sqlite database");
+                });
+            }, this._interval, this._interval);
+            this._timer.start();
+        }
+
+        this._opened = true;
+        if (callback) callback(null);
+    }
+
+    /**
+	 * Opens the component and returns a promise.
+	 *
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the component is opened.
+     */
+    public openAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.open(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    /**
+	 * Closes component and stops periodic maintenance.
+	 *
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public close(correlationId: string, callback?: (err: any) => void): void {
+        if (this._timer != null) {
+            this._timer.stop();
+            this._timer = null;
+        }
+
+        this._opened = false;
+        if (callback) callback(null);
+    }
+
+    /**
+	 * Closes component and returns a promise.
+	 *
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the component is closed.
+     */
+    public closeAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.close(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    private execute(correlationId: string, method: string, query: string, callback: (err: any, result: any) => void): void {
+        if (this._connection == null) {
+            callback(new InvalidStateException(correlationId, 'NO_CONNECTION', 'Sqlite connection is not opened'), null);
+            return;
+        }
+
+        // Tasks wait until running transactions are completed
+        this._connection.acquireHandle(correlationId, false, (err, client, release) => {
+            if (err) {
+                callback(err, null);
+                return;
+            }
+
+            client[method](query, (err, result) => {
+                release();
+                callback(SqliteErrorTranslator.translate(correlationId, err), result);
+            });
+        });
+    }
+
+    /**
+     * Runs all maintenance tasks enabled in the configuration one after another.
+     * The run is skipped when a transaction is in progress on the connection or another run is not completed yet.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public maintain(correlationId: string, callback?: (err: any) => void): void {
+        if (this._running || (this._connection != null && this._connection.isTransactionRunning())) {
+            if (this._connection != null)
+                this._connection.getLogger().debug(correlationId, "Sqlite maintenance is postponed until the database is idle");
+            if (callback) callback(null);
+            return;
+        }
+
+        let tasks = [];
+        if (this._optimize)
+            tasks.push((callback) => this.optimize(correlationId, callback));
+        if (this._analyze)
+            tasks.push((callback) => this.analyze(correlationId, callback));
+        if (this._vacuum == "incremental")
+            tasks.push((callback) => this.incrementalVacuum(correlationId, this._vacuumPages, callback));
+        if (this._vacuum == "full")
+            tasks.push((callback) => this.vacuum(correlationId, callback));
+        if (this._checkpoint)
+            tasks.push((callback) => this.checkpoint(correlationId, (err) => callback(err)));
+        if (this._integrityCheck != "none")
+            tasks.push((callback) => this.checkIntegrity(correlationId, this._integrityCheck == "quick", (err) => callback(err)));
+
+        this._running = true;
+        async.series(tasks, (err) => {
+            this._running = false;
+            if (callback) callback(err || null);
+        });
+    }
+
+    /**
+     * Runs all maintenance tasks enabled in the configuration and returns a promise.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the tasks are completed.
+     */
+    public maintainAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.maintain(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    /**
+     * Runs <code>PRAGMA optimize</code> to update statistics that are likely to improve query plans.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public optimize(correlationId: string, callback?: (err: any) => void): void {
+        this.execute(correlationId, "exec", "PRAGMA optimize", (err) => {
+            if (err == null)
+                this._connection.getLogger().info(correlationId, "Optimized sqlite database %s", this._connection.getDatabaseName());
+            if (callback) callback(err);
+        });
+    }
+
+    /**
+     * Runs <code>PRAGMA optimize</code> and returns a promise.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the database is optimized.
+     */
+    public optimizeAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.optimize(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    /**
+     * Runs <code>ANALYZE</code> to gather statistics about all tables and indexes.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public analyze(correlationId: string, callback?: (err: any) => void): void {
+        this.execute(correlationId, "exec", "ANALYZE", (err) => {
+            if (err == null)
+                this._connection.getLogger().info(correlationId, "Analyzed sqlite database %s", this._connection.getDatabaseName());
+            if (callback) callback(err);
+        });
+    }
+
+    /**
+     * Runs <code>ANALYZE</code> and returns a promise.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the database is analyzed.
+     */
+    public analyzeAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.analyze(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    /**
+     * Rebuilds the database file with <code>VACUUM</code> to reclaim all free space.
+     * The database is locked for writes until it is completed.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public vacuum(correlationId: string, callback?: (err: any) => void): void {
+        this.execute(correlationId, "exec", "VACUUM", (err) => {
+            if (err == null)
+                this._connection.getLogger().info(correlationId, "Vacuumed sqlite database %s", this._connection.getDatabaseName());
+            if (callback) callback(err);
+        });
+    }
+
+    /**
+     * Rebuilds the database file with <code>VACUUM</code> and returns a promise.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the database is vacuumed.
+     */
+    public vacuumAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.vacuum(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    /**
+     * Frees unused pages with <code>PRAGMA incremental_vacuum</code>.
+     * It has effect only on databases created with auto_vacuum=INCREMENTAL.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param pages             (optional) maximum number of freed pages, 0 to free all.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    public incrementalVacuum(correlationId: string, pages: number, callback?: (err: any) => void): void {
+        let query = pages > 0 ? "PRAGMA incremental_vacuum(" + Math.floor(pages) + ")" : "PRAGMA incremental_vacuum";
+
+        // The pragma frees pages while its result rows are stepped through
+        this.execute(correlationId, "all", query, (err) => {
+            if (err == null)
+                this._connection.getLogger().info(correlationId, "Incrementally vacuumed sqlite database %s", this._connection.getDatabaseName());
+            if (callback) callback(err);
+        });
+    }
+
+    /**
+     * Frees unused pages with <code>PRAGMA incremental_vacuum</code> and returns a promise.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param pages             (optional) maximum number of freed pages, 0 to free all.
+     * @returns a promise that is resolved when the pages are freed.
+     */
+    public incrementalVacuumAsync(correlationId: string, pages: number = 0): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.incrementalVacuum(correlationId, pages, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    /**
+     * Copies all WAL content into the database and truncates the WAL file
+     * with <code>PRAGMA wal_checkpoint(TRUNCATE)</code>.
+     * It has no effect when the database is not in WAL journal mode.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives the checkpoint result or error.
+     *                          The result contains busy flag, numbers of log and checkpointed pages.
+     */
+    public checkpoint(correlationId: string,
+        callback?: (err: any, result: { busy: boolean, log: number, checkpointed: number }) => void): void {
+        this.execute(correlationId, "get", "PRAGMA wal_checkpoint(TRUNCATE)", (err, row) => {
+            if (err) {
+                if (callback) callback(err, null);
+                return;
+            }
+
+            let result = { busy: row.busy != 0, log: row.log, checkpointed: row.checkpointed };
+            let logger = this._connection.getLogger();
+            if (result.busy)
+                logger.warn(correlationId, "WAL checkpoint of sqlite database %s was blocked by readers or writers", this._connection.getDatabaseName());
+            else
+                logger.info(correlationId, "Checkpointed %d of %d WAL pages in sqlite database %s",
+                    Math.max(result.checkpointed, 0), Math.max(result.log, 0), this._connection.getDatabaseName());
+
+            if (callback) callback(null, result);
+        });
+    }
+
+    /**
+     * Runs WAL checkpoint and returns a promise.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that receives the checkpoint result.
+     */
+    public checkpointAsync(correlationId: string): Promise<{ busy: boolean, log: number, checkpointed: number }> {
+        return new Promise((resolve, reject) => {
+            this.checkpoint(correlationId, (err, result) => {
+                if (err) reject(err);
+                else resolve(result);
+            });
+        });
+    }
+
+    /**
+     * Checks the database consistency with <code>PRAGMA quick_check</code> or <code>PRAGMA integrity_check</code>.
+     * Found problems are logged as errors.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param quick             true to run faster quick_check that skips index content verification.
+     * @param callback 			callback function that receives a list of found problems or error.
+     *                          The list is empty when the database is consistent.
+     */
+    public checkIntegrity(correlationId: string, quick: boolean, callback?: (err: any, problems: string[]) => void): void {
+        let pragma = quick ? "quick_check" : "integrity_check";
+
+        this.execute(correlationId, "all", "PRAGMA " + pragma, (err, rows) => {
+            if (err) {
+                if (callback) callback(err, null);
+                return;
+            }
+
+            let messages = _.map(rows, (row) => row[pragma]);
+            let problems = _.filter(messages, (message) => message != "ok");
+
+            let logger = this._connection.getLogger();
+            if (problems.length == 0)
+                logger.info(correlationId, "Passed %s of sqlite database %s", pragma, this._connection.getDatabaseName());
+            else
+                logger.error(correlationId, null, "Found %d problems by %s of sqlite database %s: %s",
+                    problems.length, pragma, this._connection.getDatabaseName(), problems.join("; "));
+
+            if (callback) callback(null, problems);
+        });
+    }
+
+    /**
+     * Checks the database consistency and returns a promise.
+     *
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param quick             true to run faster quick_check that skips index content verification.
+     * @returns a promise that receives a list of found problems.
+     */
+    public checkIntegrityAsync(correlationId: string, quick: boolean): Promise<string[]> {
+        return new Promise((resolve, reject) => {
+            this.checkIntegrity(correlationId, quick, (err, problems) => {
+                if (err) reject(err);
+                else resolve(problems);
+            });
+        });
+    }
+}
@@ -13,12 +13,24 @@ import { PagingParams } from 'pip-services3-commons-node';
 import { DataPage } from 'pip-services3-commons-node';
 import { ConnectionException } from 'pip-services3-commons-node';
 import { InvalidStateException } from 'pip-services3-commons-node';
+import { InternalException } from 'pip-services3-commons-node';
+import { BadRequestException } from 'pip-services3-commons-node';
+import { ConfigException } from 'pip-services3-commons-node';
 import { DependencyResolver } from 'pip-services3-commons-node';
 import { LongConverter } from 'pip-services3-commons-node';
+import { BooleanConverter } from 'pip-services3-commons-node';
+import { DateTimeConverter } from 'pip-services3-commons-node';
+import { TypeCode } from 'pip-services3-commons-node';
 import { CompositeLogger } from 'pip-services3-components-node';
 import { threadId } from 'worker_threads';
 
 import { SqliteConnection } from './SqliteConnection';
+import { SqliteErrorTranslator } from './SqliteErrorTranslator';
+import { SqliteFilter } from './SqliteFilter';
+import { SqliteChangeEvent } from './SqliteChangeEvent';
+import { ISqliteChangeListener } from './ISqliteChangeListener';
+import { SqliteSearchResult } from './SqliteSearchResult';
+import { ISqliteColumn } from './ISqliteColumn';
 
 /**
  * Abstract persistence component that stores data in SQLite using plain driver.
@@ -41,9 +53,20 @@ import { SqliteConnection } from './SqliteConnection';
  *   - username:                  (optional) user name
  *   - password:                  (optional) user password
  * - options:
- *   - connect_timeout:      (optional) number of milliseconds to wait before timing out when connecting a new client (default: 0)
- *   - idle_timeout:         (optional) number of milliseconds a client must sit idle in the pool and not be checked out (default: 10000)
- *   - max_pool_size:        (optional) maximum number of clients the pool should contain (default: 10)
+ *   - connect_timeout:      (optional) number of milliseconds to wait for a locked database (busy_timeout) (default: 5000)
+ *   - auto_reconnect:       (optional) reopens the database file after SQLITE_CANTOPEN or SQLITE_IOERR errors (default: true)
+ *   - debug:                (optional) enables verbose mode and traces executed statements (default: false)
+ *   - journal_mode:         (optional) journal mode: DELETE, TRUNCATE, PERSIST, MEMORY, WAL or OFF
+ *   - synchronous:          (optional) synchronous mode: OFF, NORMAL, FULL or EXTRA
+ *   - foreign_keys:         (optional) true to enforce foreign key constraints
+ *   - cache_size:           (optional) suggested number of cache pages, or kibibytes when negative
+ *   - max_pool_size:        (optional) number of read-only database handles used for SELECT statements in WAL mode (default: 2)
+ *   - max_page_size:        (optional) maximum number of items returned in a single page (default: 100)
+ *   - soft_delete:          (optional) marks deleted rows with deleted_at timestamp instead of removing them (default: false).
+ *                           Tables defined by hand-written schema statements must have the deleted_at column
+ *   - max_retries:          (optional) number of retries of statements failed with SQLITE_BUSY or SQLITE_LOCKED, 0 to disable (default: 3)
+ *   - retry_delay:          (optional) number of milliseconds before the first retry, doubled for each next one (default: 50)
+ *   - max_retry_delay:      (optional) maximum number of milliseconds between retries (default: 1000)
  * 
  * ### References ###
  * 
@@ -90,6 +113,8 @@ import { SqliteConnection } from './SqliteConnection';
  */
 export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, IConfigurable, IOpenable, ICleanable {
 
+    private static readonly _retryErrors: string[] = ["SQLITE_BUSY", "SQLITE_LOCKED"];
+
     private static _defaultConfig: ConfigParams = ConfigParams.fromTuples(
         "collection", null,
         "dependencies.connection", "*:connection:sqlite:*:1.0",
@@ -102,7 +127,11 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
         "options.connect_timeout", 5000,
         "options.auto_reconnect", true,
         "options.max_page_size", 100,
-        "options.debug", true
+        "options.soft_delete", false,
+        "options.max_retries", 3,
+        "options.retry_delay", 50,
+        "options.max_retry_delay", 1000,
+        "options.debug", false
     );
 
     private _config: ConfigParams;
@@ -110,6 +139,18 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
     private _opened: boolean;
     private _localConnection: boolean;
     private _schemaStatements: string[] = [];
+    private _migrations: { version: number, statements: string[] }[] = [];
+    private _changeListeners: ISqliteChangeListener<T>[] = [];
+    private _columnSpecs: ISqliteColumn[] = [];
+    private _reconnectListener = () => {
+        // The connection replaces its database handle on reconnect
+        this._client = this._connection != null ? this._connection.getConnection() : null;
+    };
+
+    /**
+     * The name of the table that keeps versions of applied migrations.
+     */
+    protected _migrationsTableName: string = "__migrations";
 
     /**
      * The dependency resolver.
@@ -138,8 +179,57 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
      */
     protected _tableName: string;
 
+    /**
+     * The names of the table columns used to validate sort and projection fields.
+     * They are read from the database when the component is opened.
+     */
+    protected _columns: string[] = [];
+
     protected _maxPageSize: number = 100;
 
+    /**
+     * The flag to mark deleted rows with a timestamp instead of removing them.
+     * Soft-deleted rows are excluded from all reads.
+     */
+    protected _softDelete: boolean = false;
+    /**
+     * The name of the column that keeps the time when a row was soft-deleted.
+     * The column must be defined in the table schema when soft delete is enabled,
+     * otherwise the component fails to open.
+     */
+    protected _deletedField: string = "deleted_at";
+
+    /**
+     * The number of retries of statements failed because the database is locked.
+     */
+    protected _maxRetries: number = 3;
+    /**
+     * The number of milliseconds before the first retry.
+     */
+    protected _retryDelay: number = 50;
+    /**
+     * The maximum number of milliseconds between retries.
+     */
+    protected _maxRetryDelay: number = 1000;
+
+    /**
+     * The fields included into the full-text search index.
+     * They are declared by [[ensureSearchIndex]].
+     */
+    protected _searchFields: string[] = [];
+    /**
+     * The markers inserted before and after matched terms in search snippets.
+     */
+    protected _searchHighlight: [string, string] = ["<b>", "</b>"];
+    /**
+     * The text added to search snippets that do not start or end with the field value.
+     */
+    protected _searchEllipsis: string = "...";
+    /**
+     * The maximum number of tokens in search snippets (up to 64).
+     */
+    protected _searchSnippetTokens: number = 16;
+
     /**
      * Creates a new instance of the persistence component.
      * 
@@ -163,6 +253,10 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
         this._tableName = config.getAsStringWithDefault("collection", this._tableName);
         this._tableName = config.getAsStringWithDefault("table", this._tableName);
         this._maxPageSize = config.getAsIntegerWithDefault("options.max_page_size", this._maxPageSize);
+        this._softDelete = config.getAsBooleanWithDefault("options.soft_delete", this._softDelete);
+        this._maxRetries = config.getAsIntegerWithDefault("options.max_retries", this._maxRetries);
+        this._retryDelay = config.getAsIntegerWithDefault("options.retry_delay", this._retryDelay);
+        this._maxRetryDelay = config.getAsIntegerWithDefault("options.max_retry_delay", this._maxRetryDelay);
     }
 
     /**
@@ -238,6 +332,67 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
         this.autoCreateObject(builder);       
     }
 
+    /**
+     * Adds definition of a full-text search index to create it on opening.
+     * 
+     * The index is an external-content FTS5 table named <code>&lt;table&gt;_search</code>
+     * that reads field values through <code>&lt;table&gt;_search_content</code> view.
+     * Triggers on the table keep the index in sync with inserted, updated and deleted rows.
+     * 
+     * Schema statements run only when the table is created. To add the index
+     * to an existing table pass [[composeSearchIndex]] statements to [[ensureMigration]].
+     * 
+     * @param fields        names of the indexed fields. See [[composeRowField]]
+     * @param tokenizer     (optional) FTS5 tokenizer definition, e.g. "porter unicode61"
+     */
+    protected ensureSearchIndex(fields: string[], tokenizer?: string): void {
+        this._searchFields = fields || [];
+
+        for (let statement of this.composeSearchIndex(tokenizer))
+            this.ensureSchema(statement);
+    }
+
+    /**
+     * Composes statements that create the full-text search index for the fields
+     * declared by [[ensureSearchIndex]] and fill it from existing rows.
+     * 
+     * @param tokenizer     (optional) FTS5 tokenizer definition.
+     * @returns a list of statements to create the index.
+     */
+    protected composeSearchIndex(tokenizer?: string): string[] {
+        let table = this.quoteIdentifier(this._tableName);
+        let search = this.quoteIdentifier(this._tableName + "_search");
+        let content = this.quoteIdentifier(this._tableName + "_search_content");
+
+        let columns = _.map(this._searchFields, (field) => this.quoteIdentifier(this.getSearchColumn(field)));
+        let values = (row) => _.map(this._searchFields, (field) => this.composeRowField(row, field)).join(", ");
+
+        let options = columns.join(", ")
+            + ", content='" + (this._tableName + "_search_content").replace(/'/g, "''") + "', content_rowid='__search_rowid'";
+        if (tokenizer)
+            options += ", tokenize='" + tokenizer.replace(/'/g, "''") + "'";
+
+        let selected = _.map(this._searchFields, (field, index) => this.composeRowField(table, field) + " AS " + columns[index]);
+        let insert = "INSERT INTO " + search + "(rowid, " + columns.join(", ") + ") VALUES (new.rowid, " + values("new") + ");";
+        let remove = "INSERT INTO " + search + "(" + search + ", rowid, " + columns.join(", ") + ")"
+            + " VALUES ('delete', old.rowid, " + values("old") + ");";
+        let trigger = (suffix, event, body) => "CREATE TRIGGER " + this.quoteIdentifier(this._tableName + "_search_" + suffix)
+            + " AFTER " + event + " ON " + table + " BEGIN " + body + " END";
+
+        return [
+            "CREATE VIEW " + content + " AS SELECT rowid AS \"__search_rowid\", " + selected.join(", ") + " FROM " + table,
+            "CREATE VIRTUAL TABLE " + search + " USING fts5(" + options + ")",
+            trigger("ai", "INSERT", insert),
+            trigger("ad", "DELETE", remove),
+            trigger("au", "UPDATE", remove + " " + insert),
+            "INSERT INTO " + search + "(" + search + ") VALUES ('rebuild')"
+        ];
+    }
+
+    private getSearchColumn(field: string): string {
+        return field.replace(/[^A-Za-z0-9_]/g, "_");
+    }
+
     /**
      * Adds a statement to schema definition.
      * This is a deprecated method. Use ensureSchema instead.
@@ -255,11 +410,39 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
         this._schemaStatements.push(schemaStatement);
     }
 
+    /**
+     * Adds a numbered migration to schema definition.
+     * 
+     * Pending migrations are applied in the order of their versions inside a transaction
+     * when the component is opened. Applied versions are tracked per table in
+     * the migrations table, so each migration runs only once.
+     * 
+     * When the table is created from scratch by [[ensureSchema]] statements, all registered
+     * migrations are considered applied. So the schema statements shall always describe
+     * the latest version of the table.
+     * 
+     * @param version       a unique positive version number of the migration.
+     * @param statements    a statement or a list of statements to be executed.
+     */
+    protected ensureMigration(version: number, statements: string | string[]): void {
+        if (version == null || version <= 0)
+            throw new Error("Migration version must be a positive number");
+        if (_.some(this._migrations, (migration) => migration.version == version))
+            throw new Error("Migration version " + version + " is already defined");
+
+        statements = _.isArray(statements) ? <string[]>statements : [<string>statements];
+        this._migrations.push({ version: version, statements: <string[]>statements });
+        this._migrations = _.sortBy(this._migrations, (migration) => migration.version);
+    }
+
     /**
      * Clears all auto-created objects
      */
     protected clearSchema(): void {
         this._schemaStatements = [];
+        this._migrations = [];
+        this._searchFields = [];
+        this._columnSpecs = [];
     }
 
     /**
@@ -269,24 +452,163 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
         // Todo: override in chile classes
     }
 
+    /**
+     * Adds table definition generated from column specifications to create it on opening.
+     * Columns with <code>index</code> flag get their own indexes.
+     * In soft delete mode the table also gets a column for the deletion time.
+     * 
+     * The specifications also define how column values are converted
+     * by [[convertToPublic]] and [[convertFromPublic]].
+     * 
+     * @param columns   specifications of the table columns.
+     */
+    protected ensureColumns(columns: ISqliteColumn[]): void {
+        this._columnSpecs = columns || [];
+
+        let specs = this._columnSpecs;
+        if (this._softDelete && !_.some(specs, (column) => column.name == this._deletedField))
+            specs = specs.concat([{ name: this._deletedField, type: "VARCHAR(30)" }]);
+
+        let keys = _.filter(specs, (column) => column.primaryKey);
+        let definitions = _.map(specs, (column) => this.composeColumn(column, keys.length == 1));
+        if (keys.length > 1) {
+            let names = _.map(keys, (column) => this.quoteIdentifier(column.name));
+            definitions.push("PRIMARY KEY (" + names.join(", ") + ")");
+        }
+
+        this.ensureSchema("CREATE TABLE IF NOT EXISTS " + this.quoteIdentifier(this._tableName)
+            + " (" + definitions.join(", ") + ")");
+
+        for (let column of specs) {
+            if (column.index)
+                this.ensureIndex(this._tableName + "_" + column.name, { [column.name]: true });
+        }
+    }
+
+    private composeColumn(column: ISqliteColumn, primaryKey: boolean): string {
+        let result = this.quoteIdentifier(column.name);
+
+        let type = column.type || this.getColumnType(column.dataType);
+        if (type) result += " " + type;
+
+        if (primaryKey && column.primaryKey) result += " PRIMARY KEY";
+        if (column.nullable === false) result += " NOT NULL";
+        if (column.unique) result += " UNIQUE";
+
+        if (column.default !== undefined) {
+            let value = this.convertColumnFromPublic(column, column.default);
+            if (value == null) result += " DEFAULT NULL";
+            else if (_.isNumber(value)) result += " DEFAULT " + value;
+            else result += " DEFAULT '" + String(value).replace(/'/g, "''") + "'";
+        }
+
+        if (column.check) result += " CHECK (" + column.check + ")";
+
+        if (column.references) {
+            result += " REFERENCES " + this.quoteIdentifier(column.references.table)
+                + " (" + this.quoteIdentifier(column.references.column || "id") + ")";
+            if (column.references.onDelete) result += " ON DELETE " + column.references.onDelete;
+            if (column.references.onUpdate) result += " ON UPDATE " + column.references.onUpdate;
+        }
+
+        return result;
+    }
+
+    private getColumnType(dataType: TypeCode): string {
+        switch (dataType) {
+            case TypeCode.Boolean:
+            case TypeCode.Integer:
+            case TypeCode.Long:
+            case TypeCode.Duration:
+                return "INTEGER";
+            case TypeCode.Float:
+            case TypeCode.Double:
+                return "REAL";
+            case TypeCode.String:
+            case TypeCode.Enum:
+            case TypeCode.DateTime:
+            case TypeCode.Object:
+            case TypeCode.Array:
+            case TypeCode.Map:
+                return "TEXT";
+            default:
+                return null;
+        }
+    }
+
+    private isJsonType(dataType: TypeCode): boolean {
+        return dataType == TypeCode.Object || dataType == TypeCode.Array || dataType == TypeCode.Map;
+    }
+
+    private convertColumnToPublic(column: ISqliteColumn, value: any): any {
+        if (value == null) return value;
+
+        if (column.dataType == TypeCode.Boolean)
+            return BooleanConverter.toNullableBoolean(value);
+        if (column.dataType == TypeCode.DateTime)
+            return DateTimeConverter.toNullableDateTime(value);
+        if (this.isJsonType(column.dataType) && _.isString(value)) {
+            try {
+                return JSON.parse(value);
+            } catch (ex) {
+                // Values written outside of the persistence may be not a valid JSON
+                return value;
+            }
+        }
+
+        return value;
+    }
+
+    private convertColumnFromPublic(column: ISqliteColumn, value: any): any {
+        if (value == null) return value;
+
+        if (column.dataType == TypeCode.Boolean)
+            return BooleanConverter.toBoolean(value) ? 1 : 0;
+        if (column.dataType == TypeCode.DateTime) {
+            let date = DateTimeConverter.toNullableDateTime(value);
+            return date != null ? date.toISOString() : null;
+        }
+        if (this.isJsonType(column.dataType))
+            return JSON.stringify(value);
+
+        return value;
+    }
+
     /** 
      * Converts object value from internal to public format.
+     * Columns declared by [[ensureColumns]] are converted according to their data types.
      * 
      * @param value     an object in internal format to convert.
      * @returns converted object in public format.
      */
     protected convertToPublic(value: any): any {
-        return value;
+        if (value == null || this._columnSpecs.length == 0) return value;
+
+        let result = _.clone(value);
+        for (let column of this._columnSpecs) {
+            if (_.has(result, column.name))
+                result[column.name] = this.convertColumnToPublic(column, result[column.name]);
+        }
+        return result;
     }    
 
     /** 
      * Convert object value from public to internal format.
+     * Columns declared by [[ensureColumns]] are converted according to their data types.
+     * Fields that are missing in the object are not added, so partial objects can be converted too.
      * 
      * @param value     an object in public format to convert.
      * @returns converted object in internal format.
      */
     protected convertFromPublic(value: any): any {
-        return value;
+        if (value == null || this._columnSpecs.length == 0) return value;
+
+        let result = _.clone(value);
+        for (let column of this._columnSpecs) {
+            if (_.has(result, column.name))
+                result[column.name] = this.convertColumnFromPublic(column, result[column.name]);
+        }
+        return result;
     }    
 
     protected quoteIdentifier(value: string): string {
@@ -297,6 +619,130 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
         return '"' + value + '"';
     }
 
+    /**
+     * Composes SQL expression for a sort or projection field.
+     * The field must be one of the table columns. When columns are not known
+     * it must be a plain identifier.
+     * 
+     * Child classes can override this method to map fields to custom expressions.
+     * 
+     * @param field     a name of the field.
+     * @returns a SQL expression for the field.
+     * @throws BadRequestException with INVALID_FIELD code when the field is not valid.
+     */
+    protected composeField(field: string): string {
+        let valid = field != null && (this._columns.length > 0
+            ? this._columns.indexOf(field) >= 0
+            : /^[A-Za-z_][A-Za-z0-9_]*$/.test(field));
+
+        if (!valid) {
+            throw new BadRequestException(
+                null,
+                "INVALID_FIELD",
+                "Field " + field + " is not found in table " + this._tableName
+            ).withDetails("field", field);
+        }
+
+        return this.quoteIdentifier(field);
+    }
+
+    /**
+     * Composes SQL expression for a field of a table row referenced by the alias.
+     * It is used in full-text search index views and triggers,
+     * where the row is the table itself or <code>new</code> and <code>old</code> trigger rows.
+     * 
+     * Child classes can override this method to map fields to custom expressions.
+     * 
+     * @param row       an alias of the table row.
+     * @param field     a name of the field.
+     * @returns a SQL expression for the field of the row.
+     */
+    protected composeRowField(row: string, field: string): string {
+        return row + "." + this.quoteIdentifier(field);
+    }
+
+    /**
+     * Composes ORDER BY clause from sort parameters.
+     * 
+     * Sort parameters can be an array of <code>{ field, ascending }</code> objects,
+     * [[https://pip-services3-node.github.io/pip-services3-commons-node/classes/data.sortparams.html SortParams]]
+     * or a single sort field. Raw SQL strings are passed as they are for backward compatibility.
+     * 
+     * @param sort      sort parameters.
+     * @returns a composed ORDER BY clause without the keyword or null if there is nothing to sort.
+     * @throws BadRequestException with INVALID_FIELD code when a sort field is not valid.
+     */
+    protected composeSort(sort: any): string {
+        if (sort == null || _.isEmpty(sort)) return null;
+        if (_.isString(sort)) return sort;
+
+        let fields = _.isArray(sort) ? sort : [sort];
+        let result = _.map(fields, (field) => {
+            let name = _.isString(field) ? field : field.field || field.name;
+            let ascending = _.isString(field) || field.ascending == null || field.ascending;
+            return this.composeField(name) + (ascending ? " ASC" : " DESC");
+        });
+
+        return result.join(", ");
+    }
+
+    /**
+     * Composes a list of selected columns from projection parameters.
+     * 
+     * Projection parameters can be an array of field names or
+     * [[https://pip-services3-node.github.io/pip-services3-commons-node/classes/data.projectionparams.html ProjectionParams]].
+     * Raw SQL strings are passed as they are for backward compatibility.
+     * 
+     * @param select    projection parameters.
+     * @returns a composed list of columns or "*" to select all columns.
+     * @throws BadRequestException with INVALID_FIELD code when a projection field is not valid.
+     */
+    protected composeSelect(select: any): string {
+        if (select == null || _.isEmpty(select)) return "*";
+        if (_.isString(select)) return select;
+
+        let fields = _.map(select, (field) => this.composeField(field));
+        return fields.join(", ");
+    }
+
+    /**
+     * Converts a filter value into SqliteFilter that excludes soft-deleted rows.
+     * 
+     * @param filter    a filter condition string or SqliteFilter with bound parameters.
+     * @returns a filter for active rows. It is never null.
+     */
+    protected composeActiveFilter(filter: any): SqliteFilter {
+        filter = SqliteFilter.fromValue(filter);
+        if (!this._softDelete) return filter;
+
+        let result = new SqliteFilter(filter.condition, filter.params.slice());
+        return result.append(this.quoteIdentifier(this._deletedField) + " IS NULL");
+    }
+
+    /**
+     * Composes a statement that deletes rows matching the filter.
+     * In soft delete mode the rows are only marked with the deletion time.
+     * 
+     * @param filter    a filter for deleted rows.
+     * @returns a composed statement and values for its parameters.
+     */
+    protected composeDelete(filter: SqliteFilter): { query: string, params: any[] } {
+        let query = "DELETE FROM " + this.quoteIdentifier(this._tableName);
+        let params = [];
+
+        if (this._softDelete) {
+            query = "UPDATE " + this.quoteIdentifier(this._tableName)
+                + " SET " + this.quoteIdentifier(this._deletedField) + "=?";
+            params.push(new Date().toISOString());
+        }
+
+        if (!filter.isEmpty())
+            query += " WHERE " + filter.condition;
+        params.push(...filter.params);
+
+        return { query: query, params: params };
+    }
+
     /**
 	 * Checks if the component is opened.
 	 * 
@@ -338,22 +784,51 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
                 if (callback) callback(err);
             } else {
                 this._client = this._connection.getConnection();
+                this._connection.addReconnectListener(this._reconnectListener);
                 this._databaseName = this._connection.getDatabaseName();
 
+                // Release the connection when the component fails to open
+                let fail = (err) => {
+                    this._connection.removeReconnectListener(this._reconnectListener);
+                    this._client = null;
+
+                    if (this._localConnection) {
+                        this._connection.close(correlationId, () => {
+                            if (callback) callback(err);
+                        });
+                    } else {
+                        if (callback) callback(err);
+                    }
+                };
+
                 // Define database schema
                 this.defineSchema();
                 
                 // Recreate objects
-                this.createSchema(correlationId, (err) => {
+                this.createSchema(correlationId, (err, created) => {
                     if (err) {
-                        this._client == null;
-                        err = new ConnectionException(correlationId, "CONNECT_FAILED", "Connection to sqlite failed").withCause(err);    
-                    } else {
-                        this._opened = true;
-                        this._logger.debug(correlationId, "Connected to sqlite database %s, collection %s", this._databaseName, this.quoteIdentifier(this._tableName));                        
+                        fail(new ConnectionException(correlationId, "CONNECT_FAILED", "Connection to sqlite failed").withCause(err));
+                        return;
                     }
 
-                    if (callback) callback(err);
+                    // Upgrade existing objects
+                    this.migrateSchema(correlationId, created, (err) => {
+                        if (err) {
+                            fail(err);
+                            return;
+                        }
+
+                        this.readColumns(correlationId, (err) => {
+                            if (err) {
+                                fail(err);
+                                return;
+                            }
+
+                            this._opened = true;
+                            this._logger.debug(correlationId, "Connected to sqlite database %s, collection %s", this._databaseName, this.quoteIdentifier(this._tableName));
+                            if (callback) callback(null);
+                        });
+                    });
                 });
             }
         };
@@ -366,6 +841,21 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
 
     }
 
+    /**
+	 * Opens the component and returns a promise.
+	 * 
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the component is opened.
+     */
+    public openAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.open(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
     /**
 	 * Closes component and frees used resources.
 	 * 
@@ -390,6 +880,8 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
             if (callback) callback(err);
         }
 
+        this._connection.removeReconnectListener(this._reconnectListener);
+
         if (this._localConnection) {
             this._connection.close(correlationId, closeCurl);
         } else {
@@ -397,6 +889,21 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
         }
     }
 
+    /**
+	 * Closes component, frees used resources and returns a promise.
+	 * 
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the component is closed.
+     */
+    public closeAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.close(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
     /**
 	 * Clears component state.
 	 * 
@@ -412,25 +919,184 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
 
         let query = "DELETE FROM " + this.quoteIdentifier(this._tableName);
 
-        this._client.exec(query, (err, result) => {
-            if (err) {
-                err = new ConnectionException(correlationId, "CONNECT_FAILED", "Connection to sqlite failed")
-                    .withCause(err);
-            }
-            
+        this.executeStatement(correlationId, "exec", query, null, (err, result) => {
             if (callback) callback(err);
         });
     }
 
-    protected createSchema(correlationId: string, callback: (err: any) => void): void {
+    /**
+	 * Clears component state and returns a promise.
+	 * 
+	 * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the component state is cleared.
+     */
+    public clearAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.clear(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    /**
+     * Executes an action inside a transaction on the persistence connection.
+     * All persistence components that share the same connection join the transaction.
+     * The transaction is committed when the action succeeds and rolled back when it fails.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param action            an action that calls the received callback or returns a promise.
+     * @param callback 			callback function that receives action result or error.
+     * 
+     * @see [[SqliteConnection.withTransaction]]
+     */
+    public withTransaction(correlationId: string,
+        action: (callback: (err: any, result?: any) => void) => void | Promise<any>,
+        callback?: (err: any, result: any) => void): void {
+        if (this._connection == null) {
+            let err = new InvalidStateException(correlationId, 'NO_CONNECTION', 'Sqlite connection is missing');
+            if (callback) callback(err, null);
+            return;
+        }
+
+        this._connection.withTransaction(correlationId, action, callback);
+    }
+
+    /**
+     * Executes a promise-returning action inside a transaction on the persistence connection.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param action            an action to be executed inside the transaction.
+     * @returns a promise that receives the action result.
+     * 
+     * @see [[withTransaction]]
+     */
+    public withTransactionAsync<R>(correlationId: string, action: () => Promise<R>): Promise<R> {
+        return new Promise((resolve, reject) => {
+            this.withTransaction(correlationId, () => action(), (err, result) => {
+                if (err) reject(err);
+                else resolve(result);
+            });
+        });
+    }
+
+    /**
+     * Adds a listener that receives change events after successful writes.
+     * 
+     * @param listener      a listener to be added.
+     */
+    public addChangeListener(listener: ISqliteChangeListener<T>): void {
+        this._changeListeners.push(listener);
+    }
+
+    /**
+     * Removes a previously added change listener.
+     * 
+     * @param listener      a listener to be removed.
+     */
+    public removeChangeListener(listener: ISqliteChangeListener<T>): void {
+        this._changeListeners = _.without(this._changeListeners, listener);
+    }
+
+    /**
+     * Checks if there are change listeners. When there are none,
+     * writes do not read previous values of changed items.
+     * 
+     * @returns true if at least one change listener was added.
+     */
+    protected hasChangeListeners(): boolean {
+        return this._changeListeners.length > 0;
+    }
+
+    /**
+     * Notifies change listeners about a successful write.
+     * Inside a transaction listeners are notified after the transaction is committed.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param type              the type of the change: created, updated or deleted.
+     * @param id                the id of the changed item.
+     * @param oldValue          the item before the change or null.
+     * @param newValue          the item after the change or null.
+     */
+    protected notifyChange(correlationId: string, type: string, id: any, oldValue: T, newValue: T): void {
+        if (!this.hasChangeListeners() || this._connection == null) return;
+
+        let event = new SqliteChangeEvent<T>(type, this._tableName, id, oldValue, newValue);
+        let listeners = this._changeListeners.slice();
+
+        this._connection.afterCommit(() => {
+            for (let listener of listeners) {
+                try {
+                    listener.onChange(correlationId, event);
+                } catch (ex) {
+                    this._logger.error(correlationId, ex, "Change listener failed on %s event in %s", type, this._tableName);
+                }
+            }
+        });
+    }
+
+    /**
+     * Reads items that are about to be changed and executes the write in the same transaction,
+     * so change events get consistent old values. When there are no change listeners
+     * the write is executed without reading, unless the old items are always required.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param filter            a filter for the items that are about to be changed.
+     * @param write             a write action that receives the result or error.
+     * @param callback          callback function that receives error, old items (null without listeners) and the write result.
+     * @param alwaysRead        (optional) true to read the old items even when there are no change listeners.
+     */
+    protected readBeforeWrite(correlationId: string, filter: SqliteFilter,
+        write: (callback: (err: any, result?: any) => void) => void,
+        callback: (err: any, oldItems: T[], result: any) => void, alwaysRead: boolean = false): void {
+
+        if (!alwaysRead && !this.hasChangeListeners()) {
+            write((err, result) => callback(err, null, result));
+            return;
+        }
+
+        let oldItems: T[] = null;
+        let writeResult: any = null;
+
+        let action = (callback: (err: any) => void) => {
+            let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName);
+            if (!filter.isEmpty())
+                query += " WHERE " + filter.condition;
+
+            this.executeStatement(correlationId, "all", query, filter.params, (err, rows) => {
+                if (err) {
+                    callback(err);
+                    return;
+                }
+
+                oldItems = _.map(rows, (row) => this.convertToPublic(row));
+                write((err, result) => {
+                    writeResult = result;
+                    callback(err);
+                });
+            });
+        };
+
+        this.withTransaction(correlationId, action, (err) => {
+            callback(err, err ? null : oldItems, err ? null : writeResult);
+        });
+    }
+
+    /**
+     * Creates database objects from schema statements when the table does not exist.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives error or a flag if the objects were created.
+     */
+    protected createSchema(correlationId: string, callback: (err: any, created?: boolean) => void): void {
         if (this._schemaStatements == null || this._schemaStatements.length == 0) {
-            callback(null);
+            callback(null, false);
             return null;
         }
     
         // Check if table exist to determine weither to auto create objects
         let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName) + " LIMIT 1";
-        this._client.get(query, (err) => {
+        this.executeStatement(correlationId, "get", query, null, (err) => {
             // If table already exists then exit
             if (err == null) {
                 callback(null);
@@ -446,27 +1112,351 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
 
             // Run all DML commands
             async.eachSeries(this._schemaStatements, (dml, callback) => {
-                this._client.exec(dml, (err) => {
+                this.executeStatement(correlationId, "exec", dml, null, (err) => {
                     if (err) {
                         this._logger.error(correlationId, err, 'Failed to autocreate database object');
                     }
                     callback(err);
                 });
-            }, callback);
+            }, (err) => {
+                callback(err, err == null);
+            });
         });
     }
 
     /**
-     * Generates a list of column names to use in SQL statements like: "column1,column2,column3"
-     * @param values an array with column values or a key-value map
-     * @returns a generated list of column names
+     * Reads names of the table columns to validate sort and projection fields.
+     * When the table does not exist the list of columns stays empty and fields are not validated.
+     * In soft delete mode it also checks that the table has the column for the deletion time.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param callback 			callback function that receives error or null no errors occured.
      */
-    protected generateColumns(values: any): string {
-        values = !_.isArray(values) ? _.keys(values) : values;
+    protected readColumns(correlationId: string, callback: (err: any) => void): void {
+        let query = "PRAGMA table_info(" + this.quoteIdentifier(this._tableName) + ")";
+        this.executeStatement(correlationId, "all", query, null, (err, result) => {
+            if (err) {
+                callback(err);
+                return;
+            }
 
-        let result = "";
-        for (let value of values) {
-            if (result != "") result += ",";
+            this._columns = _.map(result || [], (column) => column.name);
+
+            // Hand-written schemas are not extended automatically, so a migration must add the column
+            if (this._softDelete && this._columns.length > 0 && this._columns.indexOf(this._deletedField) < 0) {
+                callback(new ConfigException(
+                    correlationId,
+                    "NO_DELETED_COLUMN",
+                    "Table " + this._tableName + " has no " + this._deletedField + " column required for soft delete"
+                ).withDetails("table", this._tableName).withDetails("column", this._deletedField));
+                return;
+            }
+
+            callback(null);
+        });
+    }
+
+    /**
+     * Applies pending migrations registered by [[ensureMigration]].
+     * All pending migrations run in a single transaction. When one of them fails
+     * the whole upgrade is rolled back.
+     * 
+     * @param correlationId 	(optional) transaction id to trace execution through call chain.
+     * @param created           true if the table was just created from the schema statements.
+     * @param callback 			callback function that receives error or null no errors occured.
+     */
+    protected migrateSchema(correlationId: string, created: boolean, callback: (err: any) => void): void {
+        if (this._migrations.length == 0) {
+            callback(null);
+            return;
+        }
+
+        let migrationsTable = this.quoteIdentifier(this._migrationsTableName);
+        let query = "CREATE TABLE IF NOT EXISTS " + migrationsTable
+            + " (\"table_name\" TEXT NOT NULL, \"version\" INTEGER NOT NULL, \"applied_at\" TEXT NOT NULL,"
+            + " PRIMARY KEY (\"table_name\", \"version\"))";
+
+        this.executeStatement(correlationId, "exec", query, null, (err) => {
+            if (err) {
+                callback(new InternalException(correlationId, "MIGRATION_FAILED",
+                    "Failed to create migrations table " + this._migrationsTableName).withCause(err));
+                return;
+            }
+
+            let query = "SELECT \"version\" FROM " + migrationsTable + " WHERE \"table_name\"=?";
+            this.executeStatement(correlationId, "all", query, [this._tableName], (err, result) => {
+                if (err) {
+                    callback(new InternalException(correlationId, "MIGRATION_FAILED",
+                        "Failed to read applied migrations for " + this._tableName).withCause(err));
+                    return;
+                }
+
+                let applied = _.map(result, (row) => LongConverter.toLong(row.version));
+                let pending = _.filter(this._migrations, (migration) => applied.indexOf(migration.version) < 0);
+                if (pending.length == 0) {
+                    callback(null);
+                    return;
+                }
+
+                let insertQuery = "INSERT INTO " + migrationsTable + " (\"table_name\", \"version\", \"applied_at\") VALUES (?,?,?)";
+                let failedVersion: number = null;
+
+                this.withTransaction(correlationId, (callback) => {
+                    async.eachSeries(pending, (migration, callback) => {
+                        let statements = created ? [] : migration.statements;
+
+                        async.eachSeries(statements, (statement, callback) => {
+                            this.executeStatement(correlationId, "exec", statement, null, callback);
+                        }, (err) => {
+                            if (err) {
+                                failedVersion = migration.version;
+                                callback(err);
+                                return;
+                            }
+
+                            let values = [this._tableName, migration.version, new Date().toISOString()];
+                            this.executeStatement(correlationId, "run", insertQuery, values, callback);
+                        });
+                    }, callback);
+                }, (err) => {
+                    if (err) {
+                        let message = failedVersion != null
+                            ? "Migration " + failedVersion + " for table " + this._tableName + " failed"
+                            : "Failed to apply migrations for table " + this._tableName;
+                        err = new InternalException(correlationId, "MIGRATION_FAILED", message)
+                            .withDetails("table", this._tableName)
+                            .withDetails("version", failedVersion)
+                            .withCause(err);
+                        this._logger.error(correlationId, err, message);
+                    } else if (created) {
+                        this._logger.debug(correlationId, "Marked %d migrations as applied to new table %s", pending.length, this._tableName);
+                    } else {
+                        this._logger.info(correlationId, "Applied %d migrations to table %s", pending.length, this._tableName);
+                    }
+
+                    callback(err);
+                });
+            });
+        });
+    }
+
+    /**
+     * Checks if a statement only reads data and can be executed on a reader handle of the connection.
+     * 
+     * @param method            a sqlite3 method to call: "run", "get", "all" or "exec".
+     * @param query             a SQL statement to execute.
+     * @returns true if the statement is a SELECT query and false otherwise.
+     */
+    protected isReadOnlyStatement(method: string, query: string): boolean {
+        if (method != "get" && method != "all") return false;
+        if (/^\s*SELECT\b/i.test(query)) return true;
+
+        // Common table expressions can be followed by modifying statements
+        return /^\s*WITH\b/i.test(query) && !/\b(INSERT|UPDATE|DELETE|REPLACE)\b/i.test(query);
+    }
+
+    private getStatementStructure(query: string): string {
+        // Literals and identifiers are replaced to look only at the statement structure
+        return query.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"/g, "x").trim().replace(/;$/, "");
+    }
+
+    /**
+     * Checks if a query is a script of several statements.
+     * 
+     * @param query             a SQL query to check.
+     * @returns true if the query contains more than one statement and false otherwise.
+     */
+    protected isScript(query: string): boolean {
+        return this.getStatementStructure(query).indexOf(";") >= 0;
+    }
+
+    /**
+     * Checks if a statement gives the same result when it is repeated, so it can be retried
+     * outside of a transaction. Reads, deletes and writes of bound values are idempotent.
+     * Scripts of several statements and writes that compute new values from the current ones,
+     * like counters, appended array elements or array elements removed by position, are not.
+     * 
+     * @param method            a sqlite3 method to call: "run", "get", "all" or "exec".
+     * @param query             a SQL statement to execute.
+     * @returns true if the statement can be safely repeated and false otherwise.
+     */
+    protected isIdempotentStatement(method: string, query: string): boolean {
+        if (this.isReadOnlyStatement(method, query)) return true;
+
+        let structure = this.getStatementStructure(query);
+        if (structure.indexOf(";") >= 0) return false;
+        if (/^(CREATE|DROP)\b.*\bIF\s+(NOT\s+)?EXISTS\b/i.test(structure)) return true;
+        if (/^PRAGMA\b[^=]*$/i.test(structure)) return true;
+        if (/^DELETE\b/i.test(structure)) return true;
+        if (!/^(INSERT|REPLACE|UPDATE)\b/i.test(structure)) return false;
+
+        // Column lists like SELECT *, RETURNING * or COUNT(*) are not arithmetic
+        structure = structure.replace(/\b(SELECT|RETURNING)\s+\*|\(\s*\*\s*\)|\.\*/gi, "x");
+        if (/[+\-*\/]|\|\|/.test(structure)) return false;
+
+        // Array positions address other elements after the array is changed
+        if (/'\$[^']*\[#\]'/.test(query)) return false;
+        if (/\bJSON_REMOVE\s*\(.*'\$[^']*\[\d+\]'/i.test(query)) return false;
+        return true;
+    }
+
+    private getRetryDelay(retry: number): number {
+        let delay = Math.min(this._retryDelay * Math.pow(2, retry - 1), this._maxRetryDelay);
+        // Jitter spreads retries of concurrent writers
+        return Math.round(delay / 2 + Math.random() * delay / 2);
+    }
+
+    /**
+     * Executes a database operation on a handle of the connection.
+     * Operations that do not run inside the caller's transaction wait until other transactions are completed.
+     * Retryable operations failed with SQLITE_BUSY or SQLITE_LOCKED are repeated with exponential backoff.
+     * Errors are translated into application exceptions by [[SqliteErrorTranslator]].
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param readOnly          true if the operation only reads data and can run on a reader handle.
+     * @param retryable         true if the operation can be safely repeated after busy and locked errors.
+     * @param operation         a function that executes the operation on the given database handle.
+     * @param callback          callback function that receives the operation result or error.
+     */
+    protected executeOperation(correlationId: string, readOnly: boolean, retryable: boolean,
+        operation: (client: any, callback: (err: any, result: any) => void) => void,
+        callback: (err: any, result: any) => void): void {
+        let connection = this._connection;
+        if (connection == null || this._client == null) {
+            callback(new InvalidStateException(correlationId, 'NO_CONNECTION', 'Sqlite connection is not opened'), null);
+            return;
+        }
+
+        let retries = 0;
+
+        let retry = (err: any): boolean => {
+            if (!retryable || retries >= this._maxRetries) return false;
+            if (SqlitePersistence._retryErrors.indexOf(err.code) < 0) return false;
+
+            retries++;
+            let delay = this.getRetryDelay(retries);
+            this._logger.warn(correlationId, "Sqlite statement on table %s failed with %s. Retry %d of %d in %d ms",
+                this._tableName, err.code, retries, this._maxRetries, delay);
+            setTimeout(execute, delay);
+            return true;
+        };
+
+        let execute = () => {
+            // The connection may be reopened between retries
+            connection.acquireHandle(correlationId, readOnly, (err, client, release) => {
+                if (err) {
+                    callback(err, null);
+                    return;
+                }
+
+                operation(client, (err, result) => {
+                    release();
+                    if (err && retry(err)) return;
+                    if (err) connection.checkError(correlationId, err);
+                    callback(SqliteErrorTranslator.translate(correlationId, err), result);
+                });
+            });
+        };
+        execute();
+    }
+
+    /**
+     * Executes a SQL statement on the current database handle.
+     * Child classes shall use this method instead of calling <code>this._client</code> directly
+     * to have connection errors handled in a consistent way.
+     * SELECT queries run on the reader pool of the connection, other statements run on the writer.
+     * 
+     * Statements failed with SQLITE_BUSY or SQLITE_LOCKED are retried with exponential backoff
+     * inside the caller's transaction, and outside of it when they are idempotent (see [[isIdempotentStatement]]).
+     * Scripts of several statements are never retried, because a failed script can leave changes of its first statements.
+     * Errors are translated into application exceptions by [[SqliteErrorTranslator]].
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param method            a sqlite3 method to call: "run", "get", "all" or "exec".
+     * @param query             a SQL statement to execute.
+     * @param params            (optional) values bound to the statement parameters.
+     * @param callback          callback function that receives the result or error.
+     *                          For "run" method the result contains lastID and changes.
+     */
+    protected executeStatement(correlationId: string, method: string, query: string, params: any[],
+        callback: (err: any, result: any) => void): void {
+        let readOnly = this.isReadOnlyStatement(method, query);
+        let retryable = !(method == "exec" && this.isScript(query))
+            && (this._connection != null && this._connection.isInTransaction() || this.isIdempotentStatement(method, query));
+
+        this.executeOperation(correlationId, readOnly, retryable, (client, callback) => {
+            if (method == "exec") {
+                client.exec(query, callback);
+                return;
+            }
+
+            client[method](query, params || [], function (err, result) {
+                // The driver passes run results in the callback context
+                if (method == "run" && err == null) result = { lastID: this.lastID, changes: this.changes };
+                callback(err, result);
+            });
+        }, callback);
+    }
+
+    /**
+     * Checks if the database supports RETURNING clause in INSERT, UPDATE and DELETE statements.
+     * It was introduced in SQLite 3.35.0.
+     * 
+     * @returns true if RETURNING clause is supported and false otherwise.
+     */
+    protected isReturningSupported(): boolean {
+        return this._connection != null && this._connection.isSqliteVersionAtLeast("3.35.0");
+    }
+
+    /**
+     * Executes a modifying statement and reads back the affected row as it is stored in the database,
+     * including values set by defaults and generated columns.
+     * 
+     * It uses RETURNING clause when it is supported. Otherwise it reads the row
+     * with a separate SELECT statement using the given condition.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param query             a modifying statement without RETURNING clause.
+     * @param params            values bound to the statement parameters.
+     * @param select            a function that receives run result with lastID and changes
+     *                          and returns a filter to select the affected row.
+     * @param callback          callback function that receives the affected row, null if no row was changed, or error.
+     */
+    protected executeReturning(correlationId: string, query: string, params: any[],
+        select: (result: any) => SqliteFilter, callback: (err: any, row: any) => void): void {
+
+        if (this.isReturningSupported()) {
+            this.executeStatement(correlationId, "get", query + " RETURNING *", params, (err, row) => {
+                callback(err, err ? null : row || null);
+            });
+            return;
+        }
+
+        this.executeStatement(correlationId, "run", query, params, (err, result) => {
+            if (err || result.changes == 0) {
+                callback(err, null);
+                return;
+            }
+
+            let filter = select(result);
+            let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName) + " WHERE " + filter.condition;
+            this.executeStatement(correlationId, "get", query, filter.params, (err, row) => {
+                callback(err, err ? null : row || null);
+            });
+        });
+    }
+
+    /**
+     * Generates a list of column names to use in SQL statements like: "column1,column2,column3"
+     * @param values an array with column values or a key-value map
+     * @returns a generated list of column names
+     */
+    protected generateColumns(values: any): string {
+        values = !_.isArray(values) ? _.keys(values) : values;
+
+        let result = "";
+        for (let value of values) {
+            if (result != "") result += ",";
             result += this.quoteIdentifier(value);
         }
 
@@ -525,16 +1515,23 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
      * receives FilterParams and converts them into a filter function.
      * 
      * @param correlationId     (optional) transaction id to trace execution through call chain.
-     * @param filter            (optional) a filter JSON object
+     * @param filter            (optional) a filter condition string or SqliteFilter with bound parameters
      * @param paging            (optional) paging parameters
-     * @param sort              (optional) sorting JSON object
-     * @param select            (optional) projection JSON object
+     * @param sort              (optional) sort fields or a raw ORDER BY clause. See [[composeSort]]
+     * @param select            (optional) projection fields or a raw column list. See [[composeSelect]]
      * @param callback          callback function that receives a data page or error.
      */
     protected getPageByFilter(correlationId: string, filter: any, paging: PagingParams, 
         sort: any, select: any, callback: (err: any, items: DataPage<T>) => void): void {
         
-        select = select && !_.isEmpty(select) ? select : "*"
+        try {
+            select = this.composeSelect(select);
+            sort = this.composeSort(sort);
+        } catch (ex) {
+            callback(ex.withCorrelationId ? ex.withCorrelationId(correlationId) : ex, null);
+            return;
+        }
+
         let query = "SELECT " + select + " FROM " + this.quoteIdentifier(this._tableName);
 
         // Adjust max item count based on configuration
@@ -543,15 +1540,16 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
         let take = paging.getTake(this._maxPageSize);
         let pagingEnabled = paging.total;
 
-        if (filter && filter != "")
-            query += " WHERE " + filter;
+        filter = this.composeActiveFilter(filter);
+        if (!filter.isEmpty())
+            query += " WHERE " + filter.condition;
 
-        if (sort && !_.isEmpty(sort)) query += " ORDER BY " + sort;
+        if (sort != null) query += " ORDER BY " + sort;
 
         query += " LIMIT " + take;
         if (skip >= 0) query += " OFFSET " + skip;
 
-        this._client.all(query, (err, result) => {
+        this.executeStatement(correlationId, "all", query, filter.params, (err, result) => {
             err = err || null;
             if (err) {
                 callback(err, null);
@@ -563,14 +1561,14 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
             if (items != null)
                 this._logger.trace(correlationId, "Retrieved %d from %s", items.length, this._tableName);
 
-            items = _.map(items, this.convertToPublic);
+            items = _.map(items, (item) => this.convertToPublic(item));
 
             if (pagingEnabled) {
                 let query = 'SELECT COUNT(*) AS count FROM ' + this.quoteIdentifier(this._tableName);
-                if (filter != null && filter != "")
-                    query += " WHERE " + filter;
+                if (!filter.isEmpty())
+                    query += " WHERE " + filter.condition;
 
-                this._client.get(query, (err, result) => {
+                this.executeStatement(correlationId, "get", query, filter.params, (err, result) => {
                     err = err || null;
                     if (err) {
                         callback(err, null);
@@ -588,6 +1586,33 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
         });
     }
 
+    /**
+     * Gets a page of data items retrieved by a given filter and sorted according to sort parameters
+     * and returns it as a promise.
+     * 
+     * This method shall be called by a public getPageByFilterAsync method from child class.
+     * It always calls the base implementation, so child classes may override getPageByFilter
+     * with a different signature.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param filter            (optional) a filter condition string or SqliteFilter with bound parameters
+     * @param paging            (optional) paging parameters
+     * @param sort              (optional) sort fields or a raw ORDER BY clause. See [[composeSort]]
+     * @param select            (optional) projection fields or a raw column list. See [[composeSelect]]
+     * @returns a promise that receives a data page.
+     */
+    protected getPageByFilterAsync(correlationId: string, filter: any, paging: PagingParams,
+        sort: any, select: any): Promise<DataPage<T>> {
+        return new Promise((resolve, reject) => {
+            SqlitePersistence.prototype.getPageByFilter.call(this, correlationId, filter, paging, sort, select,
+                (err, page) => {
+                    if (err) reject(err);
+                    else resolve(page);
+                }
+            );
+        });
+    }
+
     /**
      * Gets a number of data items retrieved by a given filter.
      * 
@@ -595,17 +1620,19 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
      * receives FilterParams and converts them into a filter function.
      * 
      * @param correlationId     (optional) transaction id to trace execution through call chain.
-     * @param filter            (optional) a filter JSON object
+     * @param filter            (optional) a filter condition string or SqliteFilter with bound parameters
      * @param callback          callback function that receives a data page or error.
      */
     protected getCountByFilter(correlationId: string, filter: any, 
         callback: (err: any, count: number) => void): void {
 
         let query = 'SELECT COUNT(*) AS count FROM ' + this.quoteIdentifier(this._tableName);
-        if (filter && filter != "")
-            query += " WHERE " + filter;
 
-        this._client.get(query, (err, result) => {
+        filter = this.composeActiveFilter(filter);
+        if (!filter.isEmpty())
+            query += " WHERE " + filter.condition;
+
+        this.executeStatement(correlationId, "get", query, filter.params, (err, result) => {
             err = err || null;
             if (err) {
                 callback(err, null);
@@ -621,6 +1648,24 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
         });
     }
 
+    /**
+     * Gets a number of data items retrieved by a given filter and returns it as a promise.
+     * 
+     * This method shall be called by a public getCountByFilterAsync method from child class.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param filter            (optional) a filter condition string or SqliteFilter with bound parameters
+     * @returns a promise that receives a number of data items.
+     */
+    protected getCountByFilterAsync(correlationId: string, filter: any): Promise<number> {
+        return new Promise((resolve, reject) => {
+            SqlitePersistence.prototype.getCountByFilter.call(this, correlationId, filter, (err, count) => {
+                if (err) reject(err);
+                else resolve(count);
+            });
+        });
+    }
+
     /**
      * Gets a list of data items retrieved by a given filter and sorted according to sort parameters.
      * 
@@ -628,24 +1673,32 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
      * receives FilterParams and converts them into a filter function.
      * 
      * @param correlationId    (optional) transaction id to trace execution through call chain.
-     * @param filter           (optional) a filter JSON object
+     * @param filter           (optional) a filter condition string or SqliteFilter with bound parameters
      * @param paging           (optional) paging parameters
-     * @param sort             (optional) sorting JSON object
-     * @param select           (optional) projection JSON object
+     * @param sort             (optional) sort fields or a raw ORDER BY clause. See [[composeSort]]
+     * @param select           (optional) projection fields or a raw column list. See [[composeSelect]]
      * @param callback         callback function that receives a data list or error.
      */
     protected getListByFilter(correlationId: string, filter: any, sort: any, select: any, 
         callback: (err: any, items: T[]) => void): void {
     
-        select = select && !_.isEmpty(select) ? select : "*"
+        try {
+            select = this.composeSelect(select);
+            sort = this.composeSort(sort);
+        } catch (ex) {
+            callback(ex.withCorrelationId ? ex.withCorrelationId(correlationId) : ex, null);
+            return;
+        }
+
         let query = "SELECT " + select + " FROM " + this.quoteIdentifier(this._tableName);
 
-        if (filter && filter != "")
-            query += " WHERE " + filter;
+        filter = this.composeActiveFilter(filter);
+        if (!filter.isEmpty())
+            query += " WHERE " + filter.condition;
 
-        if (sort && !_.isEmpty(sort)) query += " ORDER BY " + sort;
+        if (sort != null) query += " ORDER BY " + sort;
 
-        this._client.all(query, (err, result) => {
+        this.executeStatement(correlationId, "all", query, filter.params, (err, result) => {
             err = err || null;
             if (err) {
                 callback(err, null);
@@ -657,11 +1710,32 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
             if (items != null)
                 this._logger.trace(correlationId, "Retrieved %d from %s", items.length, this._tableName);
                 
-            items = _.map(items, this.convertToPublic);
+            items = _.map(items, (item) => this.convertToPublic(item));
             callback(null, items);
         });
     }
 
+    /**
+     * Gets a list of data items retrieved by a given filter and sorted according to sort parameters
+     * and returns it as a promise.
+     * 
+     * This method shall be called by a public getListByFilterAsync method from child class.
+     * 
+     * @param correlationId    (optional) transaction id to trace execution through call chain.
+     * @param filter           (optional) a filter condition string or SqliteFilter with bound parameters
+     * @param sort             (optional) sort fields or a raw ORDER BY clause. See [[composeSort]]
+     * @param select           (optional) projection fields or a raw column list. See [[composeSelect]]
+     * @returns a promise that receives a data list.
+     */
+    protected getListByFilterAsync(correlationId: string, filter: any, sort: any, select: any): Promise<T[]> {
+        return new Promise((resolve, reject) => {
+            SqlitePersistence.prototype.getListByFilter.call(this, correlationId, filter, sort, select, (err, items) => {
+                if (err) reject(err);
+                else resolve(items);
+            });
+        });
+    }
+
     /**
      * Gets a random item from items that match to a given filter.
      * 
@@ -669,15 +1743,17 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
      * receives FilterParams and converts them into a filter function.
      * 
      * @param correlationId     (optional) transaction id to trace execution through call chain.
-     * @param filter            (optional) a filter JSON object
+     * @param filter            (optional) a filter condition string or SqliteFilter with bound parameters
      * @param callback          callback function that receives a random item or error.
      */
     protected getOneRandom(correlationId: string, filter: any, callback: (err: any, item: T) => void): void {
         let query = 'SELECT COUNT(*) AS count FROM ' + this.quoteIdentifier(this._tableName);
-        if (filter && filter != "")
-            query += " WHERE " + filter;
 
-        this._client.get(query, (err, result) => {
+        filter = this.composeActiveFilter(filter);
+        if (!filter.isEmpty())
+            query += " WHERE " + filter.condition;
+
+        this.executeStatement(correlationId, "get", query, filter.params, (err, result) => {
             err = err || null;
             if (err) {
                 callback(err, null);
@@ -686,14 +1762,14 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
            
             let query = "SELECT * FROM " + this.quoteIdentifier(this._tableName);
     
-            if (filter && filter != "")
-                query += " WHERE " + filter;
+            if (!filter.isEmpty())
+                query += " WHERE " + filter.condition;
     
             let count = result ? result.count : 0;
             let pos = _.random(0, count - 1);
             query += " LIMIT 1 OFFSET " + pos;
     
-            this._client.get(query, (err, result) => {
+            this.executeStatement(correlationId, "get", query, filter.params, (err, result) => {
                 err = err || null;
 
                 let item = result;
@@ -709,12 +1785,219 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
         });
     }
 
+    /**
+     * Gets a random item from items that match to a given filter and returns it as a promise.
+     * 
+     * This method shall be called by a public getOneRandomAsync method from child class.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param filter            (optional) a filter condition string or SqliteFilter with bound parameters
+     * @returns a promise that receives a random item.
+     */
+    protected getOneRandomAsync(correlationId: string, filter: any): Promise<T> {
+        return new Promise((resolve, reject) => {
+            SqlitePersistence.prototype.getOneRandom.call(this, correlationId, filter, (err, item) => {
+                if (err) reject(err);
+                else resolve(item);
+            });
+        });
+    }
+
+    /**
+     * Searches data items in the full-text search index declared by [[ensureSearchIndex]].
+     * Found items are ranked by bm25 function and returned with highlighted snippets of indexed fields.
+     * 
+     * This method shall be called by a public search method from child class that
+     * combines the search with additional filter conditions.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param query             a search query in FTS5 syntax.
+     * @param filter            (optional) a filter condition string or SqliteFilter with bound parameters
+     * @param paging            (optional) paging parameters
+     * @param callback          callback function that receives a data page with search results or error.
+     */
+    protected searchByFilter(correlationId: string, query: string, filter: any, paging: PagingParams,
+        callback: (err: any, page: DataPage<SqliteSearchResult<T>>) => void): void {
+
+        if (this._searchFields.length == 0) {
+            callback(new InvalidStateException(
+                correlationId,
+                "NO_SEARCH_INDEX",
+                "Search index is not defined for table " + this._tableName
+            ), null);
+            return;
+        }
+
+        let table = this.quoteIdentifier(this._tableName);
+        let search = this.quoteIdentifier(this._tableName + "_search");
+
+        let snippets = _.map(this._searchFields, (field, index) =>
+            "snippet(" + search + ", " + index + ", ?, ?, ?, ?) AS \"__search_snippet_" + index + "\"");
+        let snippetParams = _.flatten(_.map(this._searchFields, () => [
+            this._searchHighlight[0], this._searchHighlight[1], this._searchEllipsis, this._searchSnippetTokens
+        ]));
+
+        let hits = "WITH \"__search_hits\" AS (SELECT rowid AS \"__search_rowid\", bm25(" + search + ") AS \"__search_rank\", "
+            + snippets.join(", ") + " FROM " + search + " WHERE " + search + " MATCH ?)";
+        let from = " FROM " + table + " JOIN \"__search_hits\" ON " + table + ".rowid=\"__search_hits\".\"__search_rowid\"";
+
+        filter = this.composeActiveFilter(filter);
+        if (!filter.isEmpty())
+            from += " WHERE " + filter.condition;
+
+        // Adjust max item count based on configuration
+        paging = paging || new PagingParams();
+        let skip = paging.getSkip(-1);
+        let take = paging.getTake(this._maxPageSize);
+        let pagingEnabled = paging.total;
+
+        let sql = hits + " SELECT " + table + ".*, \"__search_hits\".*" + from
+            + " ORDER BY \"__search_rank\" LIMIT " + take;
+        if (skip >= 0) sql += " OFFSET " + skip;
+
+        let params = [...snippetParams, query, ...filter.params];
+
+        this.executeStatement(correlationId, "all", sql, params, (err, rows) => {
+            if (err) {
+                callback(this.composeSearchError(correlationId, query, err), null);
+                return;
+            }
+
+            this._logger.trace(correlationId, "Found %d in %s", rows.length, this._tableName);
+
+            let items = _.map(rows, (row) => {
+                let rank = row.__search_rank;
+                let values = {};
+                _.each(this._searchFields, (field, index) => {
+                    values[field] = row["__search_snippet_" + index];
+                    delete row["__search_snippet_" + index];
+                });
+                delete row.__search_rank;
+                delete row.__search_rowid;
+
+                return new SqliteSearchResult<T>(this.convertToPublic(row), rank, values);
+            });
+
+            if (!pagingEnabled) {
+                callback(null, new DataPage<SqliteSearchResult<T>>(items));
+                return;
+            }
+
+            let sql = hits + " SELECT COUNT(*) AS count" + from;
+            this.executeStatement(correlationId, "get", sql, [...snippetParams, query, ...filter.params], (err, result) => {
+                if (err) {
+                    callback(this.composeSearchError(correlationId, query, err), null);
+                    return;
+                }
+
+                let count = result ? LongConverter.toLong(result.count) : 0;
+                callback(null, new DataPage<SqliteSearchResult<T>>(items, count));
+            });
+        });
+    }
+
+    /**
+     * Searches data items in the full-text search index and returns a promise.
+     * 
+     * This method shall be called by a public searchAsync method from child class.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param query             a search query in FTS5 syntax.
+     * @param filter            (optional) a filter condition string or SqliteFilter with bound parameters
+     * @param paging            (optional) paging parameters
+     * @returns a promise that receives a data page with search results.
+     */
+    protected searchByFilterAsync(correlationId: string, query: string, filter: any,
+        paging: PagingParams): Promise<DataPage<SqliteSearchResult<T>>> {
+        return new Promise((resolve, reject) => {
+            SqlitePersistence.prototype.searchByFilter.call(this, correlationId, query, filter, paging, (err, page) => {
+                if (err) reject(err);
+                else resolve(page);
+            });
+        });
+    }
+
+    /**
+     * Searches data items in the full-text search index declared by [[ensureSearchIndex]].
+     * Found items are ranked by bm25 function, the best matches come first.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param query             a search query in FTS5 syntax.
+     * @param paging            (optional) paging parameters
+     * @param callback          callback function that receives a data page with search results or error.
+     */
+    public search(correlationId: string, query: string, paging: PagingParams,
+        callback: (err: any, page: DataPage<SqliteSearchResult<T>>) => void): void {
+        this.searchByFilter(correlationId, query, null, paging, callback);
+    }
+
+    /**
+     * Searches data items in the full-text search index and returns a promise.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param query             a search query in FTS5 syntax.
+     * @param paging            (optional) paging parameters
+     * @returns a promise that receives a data page with search results.
+     */
+    public searchAsync(correlationId: string, query: string, paging: PagingParams): Promise<DataPage<SqliteSearchResult<T>>> {
+        return new Promise((resolve, reject) => {
+            this.search(correlationId, query, paging, (err, page) => {
+                if (err) reject(err);
+                else resolve(page);
+            });
+        });
+    }
+
+    /**
+     * Rebuilds the full-text search index from the table rows.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param callback          (optional) callback function that receives error or null no errors occured.
+     */
+    public rebuildSearchIndex(correlationId: string, callback?: (err: any) => void): void {
+        let search = this.quoteIdentifier(this._tableName + "_search");
+        let query = "INSERT INTO " + search + "(" + search + ") VALUES ('rebuild')";
+
+        this.executeStatement(correlationId, "run", query, null, (err) => {
+            if (err == null)
+                this._logger.debug(correlationId, "Rebuilt search index for %s", this._tableName);
+            if (callback) callback(err);
+        });
+    }
+
+    /**
+     * Rebuilds the full-text search index from the table rows and returns a promise.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @returns a promise that is resolved when the index is rebuilt.
+     */
+    public rebuildSearchIndexAsync(correlationId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.rebuildSearchIndex(correlationId, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    private composeSearchError(correlationId: string, query: string, err: any): any {
+        let message = err.message || "";
+        if (message.indexOf("fts5") < 0 && message.indexOf("unterminated string") < 0)
+            return err;
+
+        return new BadRequestException(
+            correlationId,
+            "INVALID_SEARCH_QUERY",
+            "Search query " + query + " is not valid"
+        ).withDetails("query", query).withCause(err);
+    }
+
     /**
      * Creates a data item.
      * 
      * @param correlation_id    (optional) transaction id to trace execution through call chain.
      * @param item              an item to be created.
-     * @param callback          (optional) callback function that receives created item or error.
+     * @param callback          (optional) callback function that receives created item as it is stored in the database or error.
      */
     public create(correlationId: string, item: T, callback?: (err: any, item: T) => void): void {
         if (item == null) {
@@ -728,19 +2011,37 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
         let values = this.generateValues(row);
 
         let query = "INSERT INTO " + this.quoteIdentifier(this._tableName) + " (" + columns + ") VALUES (" + params + ")";
-        //query += "; SELECT * FROM " + this.quoteIdentifier(this._tableName);
+        let select = (result) => new SqliteFilter("rowid=?", [result.lastID]);
 
-        this._client.run(query, values, (err, result) => {
-            err = err || null;
-            result = result || null;
+        this.executeReturning(correlationId, query, values, select, (err, result) => {
+            if (err) {
+                if (callback) callback(err, null);
+                return;
+            }
 
-            if (!err)
-                this._logger.trace(correlationId, "Created in %s with id = %s", this.quoteIdentifier(this._tableName), row.id);
+            this._logger.trace(correlationId, "Created in %s with id = %s", this.quoteIdentifier(this._tableName), row.id);
+
+            // Tables without rowid can not be read back on older SQLite versions
+            let newItem = result ? this.convertToPublic(result) : item;
+            this.notifyChange(correlationId, SqliteChangeEvent.Created, (<any>newItem).id, null, newItem);
 
-            // let newItem = result && result.length > 1 && result[1].length == 1
-            //     ? this.convertToPublic(result[1][0]) : null;
-            let newItem = item;
-            callback(err, newItem);
+            if (callback) callback(null, newItem);
+        });
+    }
+
+    /**
+     * Creates a data item and returns it as a promise.
+     * 
+     * @param correlation_id    (optional) transaction id to trace execution through call chain.
+     * @param item              an item to be created.
+     * @returns a promise that receives the created item.
+     */
+    public createAsync(correlationId: string, item: T): Promise<T> {
+        return new Promise((resolve, reject) => {
+            this.create(correlationId, item, (err, item) => {
+                if (err) reject(err);
+                else resolve(item);
+            });
         });
     }
 
@@ -751,23 +2052,91 @@ export class SqlitePersistence<T> implements IReferenceable, IUnreferenceable, I
      * receives FilterParams and converts them into a filter function.
      * 
      * @param correlationId     (optional) transaction id to trace execution through call chain.
-     * @param filter            (optional) a filter JSON object.
-     * @param callback          (optional) callback function that receives error or null for success.
+     * @param filter            (optional) a filter condition string or SqliteFilter with bound parameters.
+     * @param callback          (optional) callback function that receives error or number of deleted items.
      */
-    public deleteByFilter(correlationId: string, filter: string, callback?: (err: any) => void): void {
-        let query = "DELETE FROM " + this.quoteIdentifier(this._tableName);
-        if (filter != null && filter != "")
-            query += " WHERE " + filter;
+    public deleteByFilter(correlationId: string, filter: any, callback?: (err: any, count?: number) => void): void {
+        filter = this.composeActiveFilter(filter);
+        let statement = this.composeDelete(filter);
+
+        let write = (callback) => {
+            this.executeStatement(correlationId, "run", statement.query, statement.params, callback);
+        };
 
-        this._client.run(query, (err, result) => {
-            let count = 0; //result ? result.affectedRows : 0;
+        this.readBeforeWrite(correlationId, filter, write, (err, oldItems, result) => {
+            let count = result ? result.changes : 0;
 
             err = err || null;
-            if (!err)
+            if (!err) {
                 this._logger.trace(correlationId, "Deleted %d items from %s", count, this._tableName);
 
-            if (callback) callback(err);
+                for (let oldItem of oldItems || [])
+                    this.notifyChange(correlationId, SqliteChangeEvent.Deleted, (<any>oldItem).id, oldItem, null);
+            }
+
+            if (callback) callback(err, err ? null : count);
+        });
+    }
+
+    /**
+     * Deletes data items that match to a given filter and returns a promise.
+     * 
+     * This method shall be called by a public deleteByFilterAsync method from child class.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param filter            (optional) a filter condition string or SqliteFilter with bound parameters.
+     * @returns a promise that receives the number of deleted items.
+     */
+    protected deleteByFilterAsync(correlationId: string, filter: any): Promise<number> {
+        return new Promise((resolve, reject) => {
+            SqlitePersistence.prototype.deleteByFilter.call(this, correlationId, filter, (err, count) => {
+                if (err) reject(err);
+                else resolve(count);
+            });
+        });
+    }
+
+    /**
+     * Physically removes soft-deleted data items.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param olderThan         (optional) removes only items deleted before this time. When it is not set all soft-deleted items are removed.
+     * @param callback          (optional) callback function that receives error or number of removed items.
+     */
+    public purge(correlationId: string, olderThan: Date, callback?: (err: any, count?: number) => void): void {
+        let deletedField = this.quoteIdentifier(this._deletedField);
+        let query = "DELETE FROM " + this.quoteIdentifier(this._tableName) + " WHERE " + deletedField + " IS NOT NULL";
+        let params = [];
+
+        if (olderThan != null) {
+            query += " AND " + deletedField + "<?";
+            params.push(olderThan.toISOString());
+        }
+
+        this.executeStatement(correlationId, "run", query, params, (err, result) => {
+            let count = result ? result.changes : 0;
+
+            err = err || null;
+            if (!err)
+                this._logger.trace(correlationId, "Purged %d deleted items from %s", count, this._tableName);
+
+            if (callback) callback(err, err ? null : count);
         });
     }
 
+    /**
+     * Physically removes soft-deleted data items and returns a promise.
+     * 
+     * @param correlationId     (optional) transaction id to trace execution through call chain.
+     * @param olderThan         (optional) removes only items deleted before this time.
+     * @returns a promise that receives the number of removed items.
+     */
+    public purgeAsync(correlationId: string, olderThan: Date): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.purge(correlationId, olderThan, (err, count) => {
+                if (err) reject(err);
+                else resolve(count);
+            });
+        });
+    }
 }
@@ -0,0 +1,35 @@
+/** @module persistence */
+
+/**
+ * Data item found by a full-text search along with its relevance and highlighted snippets.
+ *
+ * @see [[SqlitePersistence.search]]
+ */
+export class SqliteSearchResult<T> {
+    /**
+     * The found data item.
+     */
+    public item: T;
+    /**
+     * The relevance of the item calculated by bm25 function.
+     * Better matches have lower values.
+     */
+    public rank: number;
+    /**
+     * The snippets of indexed fields with highlighted matches by field name.
+     */
+    public snippets: { [field: string]: string };
+
+    /**
+     * Creates a new instance of the search result.
+     *
+     * @param item      the found data item.
+     * @param rank      the relevance of the item.
+     * @param snippets  (optional) the highlighted snippets by field name.
+     */
+    public constructor(item: T, rank: number, snippets?: { [field: string]: string }) {
+        this.item = item;
+        this.rank = rank;
+        this.snippets = snippets || {};
+    }
+}
@@ -3,6 +3,17 @@
  * @preferred
  */
 export { SqliteConnection } from './SqliteConnection';
+export { SqliteBackupScheduler } from './SqliteBackupScheduler';
+export { SqliteMaintenance } from './SqliteMaintenance';
+export { SqliteErrorTranslator } from './SqliteErrorTranslator';
+export { SqliteFilter } from './SqliteFilter';
+export { SqliteBatchResult } from './SqliteBatchResult';
+export { SqliteCursorPage } from './SqliteCursorPage';
+export { SqliteChangeEvent } from './SqliteChangeEvent';
+export { ISqliteChangeListener } from './ISqliteChangeListener';
+export { ISqliteColumn } from './ISqliteColumn';
+export { SqliteSearchResult } from './SqliteSearchResult';
+export { SqliteJsonUpdate } from './SqliteJsonUpdate';
 export { SqlitePersistence } from './SqlitePersistence';
 export { IdentifiableSqlitePersistence } from './IdentifiableSqlitePersistence';
 export { IdentifiableJsonSqlitePersistence } from './IdentifiableJsonSqlitePersistence';
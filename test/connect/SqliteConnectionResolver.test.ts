@@ -40,4 +40,76 @@ suite('SqliteConnectionResolver', ()=> {
             done(err);
         });
     });
-});
\ No newline at end of file
+
+    test('Connection Config with Mode', (done) => {
+        let dbConfig = ConfigParams.fromTuples(
+            'connection.uri', 'file://./data/test.db?mode=ro&cache=private'
+        );
+
+        let resolver = new SqliteConnectionResolver();
+        resolver.configure(dbConfig);
+
+        resolver.resolve(null, (err, config) => {
+            assert.isNull(err);
+
+            assert.equal('./data/test.db', config.database);
+            assert.equal('ro', config.mode);
+            assert.equal('private', config.cache);
+
+            done(err);
+        });
+    });
+
+    test('In-Memory Connection Config', (done) => {
+        let dbConfig = ConfigParams.fromTuples(
+            'connection.uri', 'file::memory:?cache=shared'
+        );
+
+        let resolver = new SqliteConnectionResolver();
+        resolver.configure(dbConfig);
+
+        resolver.resolve(null, (err, config) => {
+            assert.isNull(err);
+
+            assert.equal(':memory:', config.database);
+            assert.equal('memory', config.mode);
+            assert.equal('shared', config.cache);
+
+            done(err);
+        });
+    });
+
+    test('Wrong Connection Mode', (done) => {
+        let dbConfig = ConfigParams.fromTuples(
+            'connection.database', './data/test.db',
+            'connection.mode', 'xyz'
+        );
+
+        let resolver = new SqliteConnectionResolver();
+        resolver.configure(dbConfig);
+
+        resolver.resolve(null, (err, config) => {
+            assert.isNotNull(err);
+            assert.equal('WRONG_MODE', err.code);
+
+            done();
+        });
+    });
+
+    test('Connection Config with Encryption Key', (done) => {
+        let dbConfig = ConfigParams.fromTuples(
+            'connection.database', './data/test.db',
+            'credential.password', 'secret'
+        );
+
+        let resolver = new SqliteConnectionResolver();
+        resolver.configure(dbConfig);
+
+        resolver.resolve(null, (err, config) => {
+            assert.isNull(err);
+            assert.equal('secret', config.key);
+
+            done(err);
+        });
+    });
+});
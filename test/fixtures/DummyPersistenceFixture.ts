@@ -1,7 +1,9 @@
 const assert = require('chai').assert;
 const async = require('async');
+const _ = require('lodash');
 
-import { AnyValueMap, PagingParams } from 'pip-services3-commons-node';
+import { AnyValueMap, FilterParams, PagingParams } from 'pip-services3-commons-node';
+import { SortParams, SortField, ProjectionParams } from 'pip-services3-commons-node';
 import { Dummy } from './Dummy';
 import { IDummyPersistence } from './IDummyPersistence';
 
@@ -53,6 +55,25 @@ export class DummyPersistenceFixture {
                     callback(err);
                 });
             },
+            (callback) => {
+                // Filter by key
+                this._persistence.getPageByFilter(null, FilterParams.fromTuples('key', dummy1.key), new PagingParams(0, 100, true), (err, page) => {
+                    assert.isNotNull(page);
+                    assert.lengthOf(page.data, 1);
+                    assert.equal(page.total, 1);
+                    assert.equal(dummy1.id, page.data[0].id);
+
+                    callback(err);
+                });
+            },
+            (callback) => {
+                // Filter values are bound as parameters
+                this._persistence.getCountByFilter(null, FilterParams.fromTuples('key', "Key 1' OR '1'='1"), (err, count) => {
+                    assert.equal(count, 0);
+
+                    callback(err);
+                });
+            },
             (callback) => {
                 // Update the dummy
                 dummy1.content = "Updated Content 1";
@@ -176,8 +197,9 @@ export class DummyPersistenceFixture {
             },
             (callback) => {
                 // Delete batch
-                this._persistence.deleteByIds(null, [dummy1.id, dummy2.id], (err) => {
+                this._persistence.deleteByIds(null, [dummy1.id, dummy2.id], (err, count) => {
                     assert.isNull(err);
+                    assert.equal(2, count);
                     callback(err);
                 });
             },
@@ -193,4 +215,189 @@ export class DummyPersistenceFixture {
         ], callback);
     }
 
-}
\ No newline at end of file
+    public async testAsyncOperations(): Promise<void> {
+        // Create dummies
+        let dummy1 = await this._persistence.createAsync(null, this._dummy1);
+        assert.isNotNull(dummy1);
+        assert.isNotNull(dummy1.id);
+        assert.equal(this._dummy1.key, dummy1.key);
+        assert.equal(this._dummy1.content, dummy1.content);
+
+        let dummy2 = await this._persistence.createAsync(null, this._dummy2);
+        assert.isNotNull(dummy2);
+        assert.isNotNull(dummy2.id);
+
+        // Get page
+        let page = await this._persistence.getPageByFilterAsync(null, null, new PagingParams(0, 100, true));
+        assert.lengthOf(page.data, 2);
+        assert.equal(page.total, 2);
+
+        // Update the dummy
+        dummy1.content = "Updated Content 1";
+        let result = await this._persistence.updateAsync(null, dummy1);
+        assert.equal(dummy1.id, result.id);
+        assert.equal("Updated Content 1", result.content);
+
+        // Set the dummy
+        dummy1.content = "Updated Content 2";
+        result = await this._persistence.setAsync(null, dummy1);
+        assert.equal(dummy1.id, result.id);
+        assert.equal("Updated Content 2", result.content);
+
+        // Partially update the dummy
+        result = await this._persistence.updatePartiallyAsync(null, dummy1.id,
+            AnyValueMap.fromTuples('content', 'Partially Updated Content 1'));
+        assert.equal(dummy1.id, result.id);
+        assert.equal(dummy1.key, result.key);
+        assert.equal('Partially Updated Content 1', result.content);
+
+        // Get the dummy by Id
+        result = await this._persistence.getOneByIdAsync(null, dummy1.id);
+        assert.equal(dummy1.id, result.id);
+
+        // Delete the dummy
+        result = await this._persistence.deleteByIdAsync(null, dummy1.id);
+        assert.equal(dummy1.id, result.id);
+
+        result = await this._persistence.getOneByIdAsync(null, dummy1.id);
+        assert.isNull(result);
+
+        // Update the deleted dummy
+        result = await this._persistence.updateAsync(null, dummy1);
+        assert.isNull(result);
+        result = await this._persistence.updatePartiallyAsync(null, dummy1.id, AnyValueMap.fromTuples('content', 'Content'));
+        assert.isNull(result);
+
+        let count = await this._persistence.getCountByFilterAsync(null, null);
+        assert.equal(count, 1);
+
+        // Delete batch
+        count = await this._persistence.deleteByIdsAsync(null, [dummy1.id, dummy2.id]);
+        assert.equal(1, count);
+        let items = await this._persistence.getListByIdsAsync(null, [dummy1.id, dummy2.id]);
+        assert.lengthOf(items, 0);
+    }
+
+    public async testBulkOperations(): Promise<void> {
+        let items: Dummy[] = [];
+        for (let index = 0; index < 500; index++)
+            items.push({ id: null, key: "Key " + index, content: "Content " + index });
+        // Duplicated key shall fail without aborting the batch
+        items.push({ id: null, key: "Key 1", content: "Duplicate" });
+
+        // Create many dummies
+        let result = await this._persistence.createManyAsync(null, items);
+        assert.lengthOf(result.items, 501);
+        assert.equal(1, result.getErrorCount());
+        assert.isNotNull(result.items[0].id);
+        assert.isNull(result.items[500]);
+        assert.isNotNull(result.errors[500]);
+
+        let count = await this._persistence.getCountByFilterAsync(null, null);
+        assert.equal(500, count);
+
+        // Set many dummies
+        let dummy1 = result.items[0];
+        dummy1.content = "Updated Content 0";
+        result = await this._persistence.setManyAsync(null, [
+            dummy1, { id: null, key: "Key 500", content: "Content 500" }
+        ]);
+        assert.isFalse(result.hasErrors());
+        assert.isNotNull(result.items[1].id);
+
+        let dummy = await this._persistence.getOneByIdAsync(null, dummy1.id);
+        assert.equal("Updated Content 0", dummy.content);
+
+        count = await this._persistence.getCountByFilterAsync(null, null);
+        assert.equal(501, count);
+    }
+
+    public async testCursorPaging(): Promise<void> {
+        // Contents repeat and some are missing to check ties and nulls
+        let items: Dummy[] = [];
+        for (let index = 0; index < 25; index++)
+            items.push({ id: null, key: "Key " + index, content: index % 5 == 0 ? null : "Content " + (index % 3) });
+        await this._persistence.createManyAsync(null, items);
+
+        for (let descending of [false, true]) {
+            let ids: string[] = [];
+            let contents: string[] = [];
+            let cursor: string = null;
+            let pages = 0;
+
+            do {
+                let page = await this._persistence.getCursorPageAsync(null, null, cursor, 7, descending);
+                assert.isAtMost(page.data.length, 7);
+                for (let item of page.data) {
+                    ids.push(item.id);
+                    contents.push(item.content);
+                }
+                cursor = page.next;
+                pages++;
+            } while (cursor != null);
+
+            assert.equal(4, pages);
+            assert.lengthOf(ids, 25);
+            assert.lengthOf(_.uniq(ids), 25);
+
+            // SQLite puts nulls first in ascending order
+            let expected = _.sortBy(contents, (content) => content == null ? "" : content);
+            if (descending) expected.reverse();
+            assert.deepEqual(expected, contents);
+        }
+
+        // Filter is applied along with the cursor
+        let page = await this._persistence.getCursorPageAsync(null, FilterParams.fromTuples("key", "Key 1"), null, 7, false);
+        assert.lengthOf(page.data, 1);
+        assert.isFalse(page.hasNext());
+
+        // Malformed tokens and tokens with wrong values are rejected
+        let cursors = ["invalid", JSON.stringify({ id: "1" }), JSON.stringify(["a", { id: "1" }]), JSON.stringify([null, null])];
+        for (let cursor of cursors) {
+            if (cursor != "invalid")
+                cursor = Buffer.from(cursor).toString("base64");
+
+            let error = null;
+            try {
+                await this._persistence.getCursorPageAsync(null, null, cursor, 7, false);
+            } catch (ex) {
+                error = ex;
+            }
+            assert.isNotNull(error);
+            assert.equal("INVALID_CURSOR", error.code);
+        }
+    }
+
+    public async testSortAndProjection(): Promise<void> {
+        await this._persistence.createAsync(null, { id: "1", key: "Key 3", content: "Content B" });
+        await this._persistence.createAsync(null, { id: "2", key: "Key 1", content: "Content A" });
+        await this._persistence.createAsync(null, { id: "3", key: "Key 2", content: "Content B" });
+
+        // Sort by sort params
+        let items = await this._persistence.getListByFilterAsync(null, null, new SortParams(new SortField("key", false)), null);
+        assert.deepEqual(["Key 3", "Key 2", "Key 1"], _.map(items, (item) => item.key));
+
+        // Sort by several fields
+        items = await this._persistence.getListByFilterAsync(null, null,
+            [{ field: "content", ascending: true }, { field: "id", ascending: false }], null);
+        assert.deepEqual(["2", "3", "1"], _.map(items, (item) => item.id));
+
+        // Select only some fields
+        items = await this._persistence.getListByFilterAsync(null, null, [{ field: "id" }], ProjectionParams.fromValue(["id", "key"]));
+        assert.lengthOf(items, 3);
+        assert.equal("Key 3", items[0].key);
+        assert.isUndefined(items[0].content);
+
+        // Unknown and malformed fields are rejected
+        for (let field of ["key; DROP TABLE dummies", "key\" DESC, \"id"]) {
+            let error = null;
+            try {
+                await this._persistence.getListByFilterAsync(null, null, [{ field: field }], null);
+            } catch (ex) {
+                error = ex;
+            }
+            assert.isNotNull(error);
+            assert.equal("INVALID_FIELD", error.code);
+        }
+    }
+}
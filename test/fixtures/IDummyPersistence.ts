@@ -6,6 +6,8 @@ import { AnyValueMap } from 'pip-services3-commons-node';
 import { IGetter } from 'pip-services3-data-node';
 import { IWriter } from 'pip-services3-data-node';
 import { IPartialUpdater } from 'pip-services3-data-node';
+import { SqliteBatchResult } from '../../src/persistence/SqliteBatchResult';
+import { SqliteCursorPage } from '../../src/persistence/SqliteCursorPage';
 import { Dummy } from './Dummy';
 
 export interface IDummyPersistence extends IGetter<Dummy, String>, IWriter<Dummy, String>, IPartialUpdater<Dummy, String> {
@@ -18,5 +20,21 @@ export interface IDummyPersistence extends IGetter<Dummy, String>, IWriter<Dummy
     set(correlationId: string, item: Dummy, callback: (err: any, item: Dummy) => void): void;
     updatePartially(correlationId: string, id: string, data: AnyValueMap, callback: (err: any, item: Dummy) => void): void;
     deleteById(correlationId: string, id: string, callback: (err: any, item: Dummy) => void): void;
-    deleteByIds(correlationId: string, id: string[], callback: (err: any) => void): void;
+    deleteByIds(correlationId: string, id: string[], callback: (err: any, count?: number) => void): void;
+
+    getPageByFilterAsync(correlationId: string, filter: FilterParams, paging: PagingParams): Promise<DataPage<Dummy>>;
+    getCountByFilterAsync(correlationId: string, filter: FilterParams): Promise<number>;
+    getListByFilterAsync(correlationId: string, filter: FilterParams, sort: any, select: any): Promise<Dummy[]>;
+    getCursorPageAsync(correlationId: string, filter: FilterParams, cursor: string, take: number, descending: boolean): Promise<SqliteCursorPage<Dummy>>;
+    getListByIdsAsync(correlationId: string, ids: string[]): Promise<Dummy[]>;
+    getOneByIdAsync(correlationId: string, id: string): Promise<Dummy>;
+    createAsync(correlationId: string, item: Dummy): Promise<Dummy>;
+    updateAsync(correlationId: string, item: Dummy): Promise<Dummy>;
+    setAsync(correlationId: string, item: Dummy): Promise<Dummy>;
+    updatePartiallyAsync(correlationId: string, id: string, data: AnyValueMap): Promise<Dummy>;
+    deleteByIdAsync(correlationId: string, id: string): Promise<Dummy>;
+    deleteByIdsAsync(correlationId: string, ids: string[]): Promise<number>;
+
+    createManyAsync(correlationId: string, items: Dummy[]): Promise<SqliteBatchResult<Dummy>>;
+    setManyAsync(correlationId: string, items: Dummy[]): Promise<SqliteBatchResult<Dummy>>;
 }
@@ -45,4 +45,20 @@ suite('DummyJsonSqlitePersistence', ()=> {
     test('Batch Operations', (done) => {
         fixture.testBatchOperations(done);
     });
+
+    test('Async Operations', async () => {
+        await fixture.testAsyncOperations();
+    });
+
+    test('Bulk Operations', async () => {
+        await fixture.testBulkOperations();
+    });
+
+    test('Cursor Paging', async () => {
+        await fixture.testCursorPaging();
+    });
+
+    test('Sort and Projection', async () => {
+        await fixture.testSortAndProjection();
+    });
 });
\ No newline at end of file
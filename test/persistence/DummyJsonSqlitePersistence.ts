@@ -3,6 +3,8 @@ import { PagingParams } from 'pip-services3-commons-node';
 import { DataPage } from 'pip-services3-commons-node';
 
 import { IdentifiableJsonSqlitePersistence } from '../../src/persistence/IdentifiableJsonSqlitePersistence';
+import { SqliteFilter } from '../../src/persistence/SqliteFilter';
+import { SqliteCursorPage } from '../../src/persistence/SqliteCursorPage';
 import { Dummy } from '../fixtures/Dummy';
 import { IDummyPersistence } from '../fixtures/IDummyPersistence';
 
@@ -17,30 +19,44 @@ export class DummyJsonSqlitePersistence
     protected defineSchema(): void {
         this.clearSchema();
         this.ensureTable();
-        this.ensureSchema("CREATE UNIQUE INDEX IF NOT EXISTS \"" + this._tableName + "_json_key\" ON dummies_json (JSON_EXTRACT(data, '$.key'))");
+        this.ensureJsonIndex(this._tableName + "_json_key", { key: true }, { unique: true });
     }
 
-    public getPageByFilter(correlationId: string, filter: FilterParams, paging: PagingParams, 
-        callback: (err: any, page: DataPage<Dummy>) => void): void {
+    private composeFilter(filter: FilterParams): SqliteFilter {
         filter = filter || new FilterParams();
         let key = filter.getAsNullableString('key');
 
-        let filterCondition: string = "";
+        let result = new SqliteFilter();
         if (key != null)
-            filterCondition += "JSON_EXTRACT(data, '$.key')='" + key + "'";
+            result.append(this.composeField("key") + "=?", key);
+
+        return result;
+    }
+
+    public getPageByFilter(correlationId: string, filter: FilterParams, paging: PagingParams, 
+        callback: (err: any, page: DataPage<Dummy>) => void): void {
+        super.getPageByFilter(correlationId, this.composeFilter(filter), paging, null, null, callback);
+    }
 
-        super.getPageByFilter(correlationId, filterCondition, paging, null, null, callback);
+    public getPageByFilterAsync(correlationId: string, filter: FilterParams, paging: PagingParams): Promise<DataPage<Dummy>> {
+        return super.getPageByFilterAsync(correlationId, this.composeFilter(filter), paging, null, null);
     }
 
     public getCountByFilter(correlationId: string, filter: FilterParams, 
         callback: (err: any, count: number) => void): void {
-        filter = filter || new FilterParams();
-        let key = filter.getAsNullableString('key');
+        super.getCountByFilter(correlationId, this.composeFilter(filter), callback);
+    }
 
-        let filterCondition: string = "";
-        if (key != null)
-            filterCondition += "JSON_EXTRACT(data, '$.key')='" + key + "'";
+    public getCountByFilterAsync(correlationId: string, filter: FilterParams): Promise<number> {
+        return super.getCountByFilterAsync(correlationId, this.composeFilter(filter));
+    }
+
+    public getListByFilterAsync(correlationId: string, filter: FilterParams, sort: any, select: any): Promise<Dummy[]> {
+        return super.getListByFilterAsync(correlationId, this.composeFilter(filter), sort, select);
+    }
 
-        super.getCountByFilter(correlationId, filterCondition, callback);
+    public getCursorPageAsync(correlationId: string, filter: FilterParams, cursor: string, take: number,
+        descending: boolean): Promise<SqliteCursorPage<Dummy>> {
+        return super.getCursorPageByFilterAsync(correlationId, this.composeFilter(filter), cursor, take, this.composeField("content"), descending);
     }
-}
\ No newline at end of file
+}
@@ -71,4 +71,94 @@ suite('DummySqliteConnection', ()=> {
     test('Batch Operations', (done) => {
         fixture.testBatchOperations(done);
     });
-});
\ No newline at end of file
+
+    test('Async Operations', async () => {
+        await fixture.testAsyncOperations();
+    });
+
+    test('Transactions', async () => {
+        // Commit on success
+        await connection.withTransactionAsync(null, async () => {
+            await persistence.createAsync(null, { id: "1", key: "Key 1", content: "Content 1" });
+            await persistence.createAsync(null, { id: "2", key: "Key 2", content: "Content 2" });
+        });
+        assert.equal(0, connection.getTransactionLevel());
+        assert.equal(2, await persistence.getCountByFilterAsync(null, null));
+
+        // Rollback on failure
+        let error = null;
+        try {
+            await connection.withTransactionAsync(null, async () => {
+                await persistence.createAsync(null, { id: "3", key: "Key 3", content: "Content 3" });
+                // Duplicated key fails
+                await persistence.createAsync(null, { id: "4", key: "Key 1", content: "Content 4" });
+            });
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+        assert.isFalse(connection.isInTransaction());
+        assert.isNull(await persistence.getOneByIdAsync(null, "3"));
+
+        // Rollback nested savepoint only
+        await connection.withTransactionAsync(null, async () => {
+            await persistence.deleteByIdAsync(null, "1");
+            try {
+                await connection.withTransactionAsync(null, async () => {
+                    assert.equal(2, connection.getTransactionLevel());
+                    await persistence.deleteByIdAsync(null, "2");
+                    throw new Error("Test error");
+                });
+            } catch (ex) {
+                // Ignore
+            }
+        });
+        assert.isNull(await persistence.getOneByIdAsync(null, "1"));
+        assert.isNotNull(await persistence.getOneByIdAsync(null, "2"));
+    });
+
+    test('Concurrent Transactions', async () => {
+        let running = 0;
+        let transaction = (id: string, fail: boolean) => connection.withTransactionAsync(null, async () => {
+            running++;
+            assert.equal(1, running);
+            assert.equal(1, connection.getTransactionLevel());
+
+            await persistence.createAsync(null, { id: id, key: "Key " + id, content: "Content " + id });
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            running--;
+            if (fail) throw new Error("Test error");
+        });
+
+        // Statements outside of transactions wait until they are completed
+        let results = await Promise.all([
+            transaction("1", false),
+            transaction("2", true).catch((err) => err),
+            transaction("3", false),
+            persistence.getCountByFilterAsync(null, null)
+        ]);
+        assert.instanceOf(results[1], Error);
+        assert.equal(2, results[3]);
+        assert.isFalse(connection.isInTransaction());
+
+        assert.isNotNull(await persistence.getOneByIdAsync(null, "1"));
+        assert.isNull(await persistence.getOneByIdAsync(null, "2"));
+        assert.isNotNull(await persistence.getOneByIdAsync(null, "3"));
+    });
+
+    test('Transactions with Callbacks', (done) => {
+        connection.withTransaction(null, (callback) => {
+            persistence.create(null, { id: "1", key: "Key 1", content: "Content 1" }, (err) => {
+                callback(err || new Error("Test error"));
+            });
+        }, (err) => {
+            assert.isNotNull(err);
+
+            persistence.getOneById(null, "1", (err, item) => {
+                assert.isNull(item);
+                done(err);
+            });
+        });
+    });
+});
@@ -3,6 +3,8 @@ import { PagingParams } from 'pip-services3-commons-node';
 import { DataPage } from 'pip-services3-commons-node';
 
 import { IdentifiableSqlitePersistence } from '../../src/persistence/IdentifiableSqlitePersistence';
+import { SqliteFilter } from '../../src/persistence/SqliteFilter';
+import { SqliteCursorPage } from '../../src/persistence/SqliteCursorPage';
 import { Dummy } from '../fixtures/Dummy';
 import { IDummyPersistence } from '../fixtures/IDummyPersistence';
 
@@ -20,27 +22,41 @@ export class DummySqlitePersistence
         this.ensureIndex(this._tableName + '_key', { key: 1 }, { unique: true });
     }
 
-    public getPageByFilter(correlationId: string, filter: FilterParams, paging: PagingParams, 
-        callback: (err: any, page: DataPage<Dummy>) => void): void {
+    private composeFilter(filter: FilterParams): SqliteFilter {
         filter = filter || new FilterParams();
         let key = filter.getAsNullableString('key');
 
-        let filterCondition: string = "";
+        let result = new SqliteFilter();
         if (key != null)
-            filterCondition += "\"key\"='" + key + "'";
+            result.append("\"key\"=?", key);
+
+        return result;
+    }
+
+    public getPageByFilter(correlationId: string, filter: FilterParams, paging: PagingParams, 
+        callback: (err: any, page: DataPage<Dummy>) => void): void {
+        super.getPageByFilter(correlationId, this.composeFilter(filter), paging, null, null, callback);
+    }
 
-        super.getPageByFilter(correlationId, filterCondition, paging, null, null, callback);
+    public getPageByFilterAsync(correlationId: string, filter: FilterParams, paging: PagingParams): Promise<DataPage<Dummy>> {
+        return super.getPageByFilterAsync(correlationId, this.composeFilter(filter), paging, null, null);
     }
 
     public getCountByFilter(correlationId: string, filter: FilterParams, 
         callback: (err: any, count: number) => void): void {
-        filter = filter || new FilterParams();
-        let key = filter.getAsNullableString('key');
+        super.getCountByFilter(correlationId, this.composeFilter(filter), callback);
+    }
 
-        let filterCondition: string = "";
-        if (key != null)
-            filterCondition += "\"key\"='" + key + "'";
+    public getCountByFilterAsync(correlationId: string, filter: FilterParams): Promise<number> {
+        return super.getCountByFilterAsync(correlationId, this.composeFilter(filter));
+    }
+
+    public getListByFilterAsync(correlationId: string, filter: FilterParams, sort: any, select: any): Promise<Dummy[]> {
+        return super.getListByFilterAsync(correlationId, this.composeFilter(filter), sort, select);
+    }
 
-        super.getCountByFilter(correlationId, filterCondition, callback);
+    public getCursorPageAsync(correlationId: string, filter: FilterParams, cursor: string, take: number,
+        descending: boolean): Promise<SqliteCursorPage<Dummy>> {
+        return super.getCursorPageByFilterAsync(correlationId, this.composeFilter(filter), cursor, take, "\"content\"", descending);
     }
-}
\ No newline at end of file
+}
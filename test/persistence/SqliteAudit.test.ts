@@ -0,0 +1,126 @@
+const assert = require('chai').assert;
+const process = require('process');
+
+import { AnyValueMap } from 'pip-services3-commons-node';
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { IdentifiableSqlitePersistence } from '../../src/persistence/IdentifiableSqlitePersistence';
+import { IdentifiableJsonSqlitePersistence } from '../../src/persistence/IdentifiableJsonSqlitePersistence';
+
+class AuditedSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    public constructor() {
+        super('audited_dummies');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureSchema('CREATE TABLE "audited_dummies" ("id" VARCHAR(32) PRIMARY KEY, "key" VARCHAR(50), '
+            + '"create_time" VARCHAR(30), "update_time" VARCHAR(30), "created_by" VARCHAR(50), "updated_by" VARCHAR(50))');
+    }
+}
+
+class AuditedJsonSqlitePersistence extends IdentifiableJsonSqlitePersistence<any, string> {
+    public constructor() {
+        super('audited_dummies_json');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureTable();
+    }
+}
+
+suite('SqliteAudit', ()=> {
+    let connection: SqliteConnection;
+
+    let sqliteDatabase = process.env['SQLITE_DB'] || './data/test.db';
+    if (sqliteDatabase == null)
+        return;
+
+    setup((done) => {
+        connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase
+        ));
+
+        connection.open(null, (err) => {
+            if (err) {
+                done(err);
+                return;
+            }
+
+            connection.getConnection().exec('DROP TABLE IF EXISTS "audited_dummies"; '
+                + 'DROP TABLE IF EXISTS "audited_dummies_json"', done);
+        });
+    });
+
+    teardown((done) => {
+        connection.close(null, done);
+    });
+
+    let delay = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+    let testAudit = async (persistence: IdentifiableSqlitePersistence<any, string>) => {
+        persistence.configure(ConfigParams.fromTuples(
+            'options.create_time_field', 'create_time',
+            'options.update_time_field', 'update_time',
+            'options.created_by_field', 'created_by',
+            'options.updated_by_field', 'updated_by'
+        ));
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+        persistence.setActorProvider((correlationId) => "user" + correlationId);
+        await persistence.openAsync(null);
+
+        let item = await persistence.createAsync("1", { id: "1", key: "Key 1" });
+        assert.isString(item.create_time);
+        assert.equal(item.create_time, item.update_time);
+        assert.equal("user1", item.created_by);
+        assert.equal("user1", item.updated_by);
+        let createTime = item.create_time;
+
+        // Creation fields are never overwritten
+        await delay();
+        item = await persistence.updatePartiallyAsync("2", "1", AnyValueMap.fromTuples(
+            "key", "Key 2", "create_time", "2000-01-01T00:00:00.000Z", "created_by", "user2"
+        ));
+        assert.equal("Key 2", item.key);
+        assert.equal(createTime, item.create_time);
+        assert.equal("user1", item.created_by);
+        assert.equal("user2", item.updated_by);
+        assert.isTrue(item.update_time > createTime);
+
+        item = await persistence.updateAsync("3", { id: "1", key: "Key 3", create_time: null, created_by: null });
+        assert.equal(createTime, item.create_time);
+        assert.equal("user1", item.created_by);
+        assert.equal("user3", item.updated_by);
+
+        item = await persistence.setAsync("4", { id: "1", key: "Key 4" });
+        assert.equal(createTime, item.create_time);
+        assert.equal("user4", item.updated_by);
+
+        let result = await persistence.setManyAsync("5", [{ id: "1", key: "Key 5" }, { id: "2", key: "Key 6" }]);
+        assert.equal("user5", result.items[1].created_by);
+        assert.equal("user5", result.items[1].updated_by);
+        assert.isString(result.items[1].create_time);
+        item = await persistence.getOneByIdAsync(null, "1");
+        assert.equal(createTime, item.create_time);
+        assert.equal("user1", item.created_by);
+        assert.equal("user5", item.updated_by);
+        item = await persistence.getOneByIdAsync(null, "2");
+        assert.equal("user5", item.created_by);
+
+        await persistence.closeAsync(null);
+    };
+
+    test('Column Audit', async () => {
+        await testAudit(new AuditedSqlitePersistence());
+    });
+
+    test('JSON Audit', async () => {
+        await testAudit(new AuditedJsonSqlitePersistence());
+    });
+});
@@ -0,0 +1,202 @@
+const assert = require('chai').assert;
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { SqliteBackupScheduler } from '../../src/persistence/SqliteBackupScheduler';
+
+suite('SqliteBackup', ()=> {
+    let connection: SqliteConnection;
+
+    let directory = path.join(os.tmpdir(), 'pip-sqlite-backup-test');
+    let database = path.join(directory, 'source.db');
+    let backups = path.join(directory, 'backups');
+
+    let execute = (connection: SqliteConnection, method: string, query: string): Promise<any> => {
+        return new Promise((resolve, reject) => {
+            connection.getConnection()[method](query, (err, result) => {
+                if (err) reject(err);
+                else resolve(result);
+            });
+        });
+    };
+
+    let count = async (connection: SqliteConnection): Promise<number> => {
+        let result = await execute(connection, "get", "SELECT COUNT(*) AS count FROM items");
+        return result.count;
+    };
+
+    let openDatabase = async (database: string, timeout: number = 5000): Promise<SqliteConnection> => {
+        let connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', database,
+            'options.backup_step_pages', 2,
+            'options.backup_step_delay', 1,
+            'options.connect_timeout', timeout
+        ));
+        await connection.openAsync(null);
+        return connection;
+    };
+
+    setup(async () => {
+        fs.rmSync(directory, { recursive: true, force: true });
+        fs.mkdirSync(directory, { recursive: true });
+
+        connection = await openDatabase(database);
+        await execute(connection, "exec", "CREATE TABLE items (id INTEGER PRIMARY KEY, data TEXT); "
+            + "INSERT INTO items (data) SELECT zeroblob(2000) FROM (WITH RECURSIVE n(i) AS "
+            + "(SELECT 1 UNION ALL SELECT i+1 FROM n WHERE i<20) SELECT i FROM n)");
+    });
+
+    teardown(async () => {
+        await connection.closeAsync(null);
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('Backup and Restore', async () => {
+        let target = path.join(directory, 'backup.db');
+        let steps = [];
+
+        // Writers are not blocked by the backup
+        await Promise.all([
+            connection.backupAsync(null, target, (copied, total) => steps.push([copied, total])),
+            execute(connection, "run", "INSERT INTO items (data) VALUES ('new')")
+        ]);
+
+        assert.isAbove(steps.length, 1);
+        let last = steps[steps.length - 1];
+        assert.equal(last[0], last[1]);
+
+        let copy = await openDatabase(target);
+        assert.equal(21, await count(copy));
+        await copy.closeAsync(null);
+
+        // Restore replaces current content
+        await execute(connection, "run", "DELETE FROM items");
+        await connection.restoreAsync(null, target);
+        assert.equal(21, await count(connection));
+
+        let error = null;
+        try {
+            await connection.restoreAsync(null, path.join(directory, 'missing.db'));
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+        assert.equal("BACKUP_NOT_FOUND", error.code);
+
+        error = null;
+        try {
+            await connection.withTransactionAsync(null, () => connection.restoreAsync(null, target));
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+        assert.equal("TRANSACTION_IN_PROGRESS", error.code);
+    });
+
+    test('Backup Locked Database', async () => {
+        let target = path.join(directory, 'backup.db');
+
+        // Busy timeout is disabled to get SQLITE_BUSY in backup steps
+        await connection.closeAsync(null);
+        connection = await openDatabase(database, 0);
+
+        // Another connection holds the write lock for a while
+        let sqlite = require('sqlite3');
+        let locker = await new Promise<any>((resolve, reject) => {
+            let db = new sqlite.Database(database, (err) => {
+                if (err) reject(err);
+                else resolve(db);
+            });
+        });
+        await new Promise<void>((resolve, reject) => {
+            locker.exec("BEGIN EXCLUSIVE", (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+        let unlock = new Promise<void>((resolve) => {
+            setTimeout(() => locker.exec("COMMIT", () => locker.close(() => resolve())), 300);
+        });
+
+        // Steps are repeated until the lock is released
+        await connection.backupAsync(null, target);
+        await unlock;
+
+        let copy = await openDatabase(target);
+        assert.equal(20, await count(copy));
+        await copy.closeAsync(null);
+    });
+
+    test('Failed Backups', async () => {
+        let target = path.join(directory, 'backup.db');
+
+        // The driver fails in the middle of the copy
+        let db = connection.getConnection();
+        let createBackup = db.backup.bind(db);
+        db.backup = (file) => {
+            let backup = createBackup(file);
+            let step = backup.step.bind(backup);
+            let steps = 0;
+            backup.step = (pages, callback) => {
+                if (++steps < 3) step(pages, callback);
+                else callback(new Error("Disk failure"));
+            };
+            return backup;
+        };
+
+        let error = null;
+        try {
+            await connection.backupAsync(null, target);
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+        assert.equal("BACKUP_FAILED", error.code);
+        assert.isFalse(fs.existsSync(target));
+        assert.isFalse(fs.existsSync(target + ".tmp"));
+
+        // Without backup API the database is copied by VACUUM INTO
+        db.backup = undefined;
+        await connection.backupAsync(null, target);
+        let copy = await openDatabase(target);
+        assert.equal(20, await count(copy));
+        await copy.closeAsync(null);
+    });
+
+    test('Scheduled Backups', async () => {
+        let scheduler = new SqliteBackupScheduler();
+        scheduler.configure(ConfigParams.fromTuples(
+            'options.path', backups,
+            'options.interval', 20,
+            'options.retention', 2,
+            'options.prefix', 'source'
+        ));
+        scheduler.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+
+        await scheduler.openAsync(null);
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        await scheduler.closeAsync(null);
+
+        let files = scheduler.getBackups();
+        assert.isAbove(files.length, 0);
+        assert.isAtMost(files.length, 2);
+
+        // Old backups are removed
+        for (let index = 0; index < 3; index++)
+            await scheduler.backupAsync(null);
+
+        let latest = await scheduler.backupAsync(null);
+        files = scheduler.getBackups();
+        assert.lengthOf(files, 2);
+        assert.equal(latest, files[1]);
+        assert.isTrue(files.every((file) => path.basename(file).startsWith("source-")));
+    });
+});
@@ -0,0 +1,201 @@
+const assert = require('chai').assert;
+const process = require('process');
+
+import { AnyValueMap } from 'pip-services3-commons-node';
+import { ConfigParams } from 'pip-services3-commons-node';
+import { SqliteChangeEvent } from '../../src/persistence/SqliteChangeEvent';
+import { ISqliteChangeListener } from '../../src/persistence/ISqliteChangeListener';
+import { IdentifiableSqlitePersistence } from '../../src/persistence/IdentifiableSqlitePersistence';
+import { Dummy } from '../fixtures/Dummy';
+import { DummySqlitePersistence } from './DummySqlitePersistence';
+
+class DummyChangeListener implements ISqliteChangeListener<Dummy> {
+    public events: SqliteChangeEvent<Dummy>[] = [];
+
+    public onChange(correlationId: string, event: SqliteChangeEvent<Dummy>): void {
+        this.events.push(event);
+    }
+
+    public take(): SqliteChangeEvent<Dummy>[] {
+        let events = this.events;
+        this.events = [];
+        return events;
+    }
+}
+
+class SoftDeletedSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    public constructor() {
+        super('soft_event_dummies');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureSchema('CREATE TABLE "soft_event_dummies" ("id" VARCHAR(32) PRIMARY KEY, "key" VARCHAR(50), "deleted_at" VARCHAR(30))');
+    }
+}
+
+suite('SqliteChangeEvents', ()=> {
+    let persistence: DummySqlitePersistence;
+    let listener: DummyChangeListener;
+
+    let sqliteDatabase = process.env['SQLITE_DB'] || './data/test.db';
+    if (sqliteDatabase == null)
+        return;
+
+    setup((done) => {
+        persistence = new DummySqlitePersistence();
+        persistence.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase
+        ));
+
+        listener = new DummyChangeListener();
+        persistence.addChangeListener(listener);
+
+        persistence.open(null, (err: any) => {
+            if (err) {
+                done(err);
+                return;
+            }
+
+            persistence.clear(null, done);
+        });
+    });
+
+    teardown((done) => {
+        persistence.close(null, done);
+    });
+
+    test('Write Events', async () => {
+        let dummy = await persistence.createAsync(null, { id: "1", key: "Key 1", content: "Content 1" });
+        let events = listener.take();
+        assert.lengthOf(events, 1);
+        assert.equal(SqliteChangeEvent.Created, events[0].type);
+        assert.equal("dummies", events[0].table);
+        assert.equal("1", events[0].id);
+        assert.isNull(events[0].oldValue);
+        assert.equal("Key 1", events[0].newValue.key);
+
+        dummy.content = "Content 2";
+        await persistence.updateAsync(null, dummy);
+        await persistence.updatePartiallyAsync(null, "1", AnyValueMap.fromTuples("content", "Content 3"));
+        events = listener.take();
+        assert.lengthOf(events, 2);
+        assert.equal(SqliteChangeEvent.Updated, events[0].type);
+        assert.equal("Content 1", events[0].oldValue.content);
+        assert.equal("Content 2", events[0].newValue.content);
+        assert.equal("Content 3", events[1].newValue.content);
+
+        await persistence.setAsync(null, { id: "1", key: "Key 1", content: "Content 4" });
+        await persistence.setAsync(null, { id: "2", key: "Key 2", content: "Content 1" });
+        events = listener.take();
+        assert.deepEqual([SqliteChangeEvent.Updated, SqliteChangeEvent.Created], events.map((event) => event.type));
+
+        await persistence.setManyAsync(null, [{ id: "2", key: "Key 2", content: "Content 2" }, { id: "3", key: "Key 3", content: "Content 3" }]);
+        events = listener.take();
+        assert.deepEqual([SqliteChangeEvent.Updated, SqliteChangeEvent.Created], events.map((event) => event.type));
+        assert.equal("Content 1", events[0].oldValue.content);
+
+        // Missing items produce no events
+        await persistence.updateAsync(null, { id: "4", key: "Key 4", content: "Content 4" });
+        await persistence.deleteByIdAsync(null, "4");
+        assert.lengthOf(listener.take(), 0);
+
+        await persistence.deleteByIdAsync(null, "1");
+        await persistence.deleteByIdsAsync(null, ["2", "3"]);
+        events = listener.take();
+        assert.lengthOf(events, 3);
+        assert.isTrue(events.every((event) => event.type == SqliteChangeEvent.Deleted && event.newValue == null));
+        assert.sameMembers(["1", "2", "3"], events.map((event) => event.oldValue.id));
+    });
+
+    test('Transaction Events', async () => {
+        await persistence.withTransactionAsync(null, async () => {
+            await persistence.createAsync(null, { id: "1", key: "Key 1", content: "Content 1" });
+            await persistence.createAsync(null, { id: "2", key: "Key 2", content: "Content 2" });
+
+            // Events wait for commit
+            assert.lengthOf(listener.events, 0);
+        });
+        assert.lengthOf(listener.take(), 2);
+
+        let error = null;
+        try {
+            await persistence.withTransactionAsync(null, async () => {
+                await persistence.deleteByIdAsync(null, "1");
+                throw new Error("Abort");
+            });
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+
+        // Rolled back changes produce no events
+        assert.lengthOf(listener.take(), 0);
+        assert.isNotNull(await persistence.getOneByIdAsync(null, "1"));
+
+        // Listeners can be removed
+        persistence.removeChangeListener(listener);
+        await persistence.deleteByIdAsync(null, "1");
+        assert.lengthOf(listener.take(), 0);
+    });
+
+    test('Concurrent Write Events', async () => {
+        let dummy1 = await persistence.createAsync(null, { id: "1", key: "Key 1", content: "Content 1" });
+        let dummy2 = await persistence.createAsync(null, { id: "2", key: "Key 2", content: "Content 2" });
+        let dummy3 = await persistence.createAsync(null, { id: "3", key: "Key 3", content: "Content 3" });
+        listener.take();
+
+        // Each write reads the old value in its own transaction
+        await Promise.all([dummy1, dummy2, dummy3].map((dummy) => {
+            dummy.content = "Updated " + dummy.id;
+            return persistence.updateAsync(null, dummy);
+        }));
+
+        let events = listener.take();
+        assert.lengthOf(events, 3);
+        for (let event of events) {
+            assert.equal(SqliteChangeEvent.Updated, event.type);
+            assert.equal("Content " + event.id, event.oldValue.content);
+            assert.equal("Updated " + event.id, event.newValue.content);
+        }
+
+        // Only one of concurrent deletes returns the item
+        let deleted = await Promise.all([persistence.deleteByIdAsync(null, "1"), persistence.deleteByIdAsync(null, "1")]);
+        assert.lengthOf(deleted.filter((item) => item != null), 1);
+        events = listener.take();
+        assert.lengthOf(events, 1);
+        assert.equal(SqliteChangeEvent.Deleted, events[0].type);
+        assert.equal("Updated 1", events[0].oldValue.content);
+
+        // Closed component reports errors to the callback
+        await persistence.closeAsync(null);
+        let error = await new Promise((resolve) => persistence.deleteById(null, "2", (err) => resolve(err)));
+        assert.isNotNull(error);
+        await persistence.openAsync(null);
+    });
+
+    test('Restore Events', async () => {
+        let softPersistence = new SoftDeletedSqlitePersistence();
+        softPersistence.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase,
+            'options.soft_delete', true
+        ));
+        softPersistence.addChangeListener(<any>listener);
+        await softPersistence.openAsync(null);
+        await softPersistence.clearAsync(null);
+
+        await softPersistence.createAsync(null, { id: "1", key: "Key 1" });
+        await softPersistence.deleteByIdAsync(null, "1");
+        listener.take();
+
+        // Restore is reported as an update of the deleted item
+        await softPersistence.restoreByIdAsync(null, "1");
+        let events = listener.take();
+        assert.lengthOf(events, 1);
+        assert.equal(SqliteChangeEvent.Updated, events[0].type);
+        assert.isNotNull((<any>events[0].oldValue).deleted_at);
+        assert.isNull((<any>events[0].newValue).deleted_at);
+
+        await softPersistence.closeAsync(null);
+    });
+});
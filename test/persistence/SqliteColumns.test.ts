@@ -0,0 +1,192 @@
+const assert = require('chai').assert;
+const process = require('process');
+
+import { AnyValueMap } from 'pip-services3-commons-node';
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { TypeCode } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { SqlitePersistence } from '../../src/persistence/SqlitePersistence';
+import { IdentifiableSqlitePersistence } from '../../src/persistence/IdentifiableSqlitePersistence';
+
+class OwnerSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    public constructor() {
+        super('column_owners');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureColumns([
+            { name: "id", type: "VARCHAR(32)", primaryKey: true },
+            { name: "name", type: "VARCHAR(50)", nullable: false }
+        ]);
+    }
+}
+
+class ColumnSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    public constructor() {
+        super('column_dummies');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureColumns([
+            { name: "id", type: "VARCHAR(32)", primaryKey: true },
+            { name: "name", type: "VARCHAR(50)", nullable: false, unique: true },
+            { name: "active", dataType: TypeCode.Boolean, nullable: false, default: true },
+            { name: "rating", dataType: TypeCode.Integer, default: 0, check: '"rating" BETWEEN 0 AND 5', index: true },
+            { name: "label", dataType: TypeCode.String, default: "It's new" },
+            { name: "created", dataType: TypeCode.DateTime },
+            { name: "tags", dataType: TypeCode.Array },
+            { name: "profile", dataType: TypeCode.Map },
+            { name: "owner_id", type: "VARCHAR(32)", references: { table: "column_owners", onDelete: "CASCADE" } }
+        ]);
+    }
+
+    public readTableInfoAsync(query: string): Promise<any[]> {
+        return new Promise((resolve, reject) => {
+            this.executeStatement(null, "all", query, null, (err, rows) => {
+                if (err) reject(err);
+                else resolve(rows);
+            });
+        });
+    }
+}
+
+class LinkSqlitePersistence extends SqlitePersistence<any> {
+    public constructor() {
+        super('column_links');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureColumns([
+            { name: "from_id", type: "VARCHAR(32)", primaryKey: true },
+            { name: "to_id", type: "VARCHAR(32)", primaryKey: true }
+        ]);
+    }
+}
+
+suite('SqliteColumns', ()=> {
+    let connection: SqliteConnection;
+    let owners: OwnerSqlitePersistence;
+    let persistence: ColumnSqlitePersistence;
+
+    let sqliteDatabase = process.env['SQLITE_DB'] || './data/test.db';
+    if (sqliteDatabase == null)
+        return;
+
+    let open = (persistence: SqlitePersistence<any>) => {
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+        return persistence.openAsync(null);
+    };
+
+    setup(async () => {
+        connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase,
+            'options.foreign_keys', true
+        ));
+        await connection.openAsync(null);
+
+        await new Promise<void>((resolve, reject) => {
+            connection.getConnection().exec('DROP TABLE IF EXISTS "column_dummies"; '
+                + 'DROP TABLE IF EXISTS "column_owners"; DROP TABLE IF EXISTS "column_links"', (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+
+        owners = new OwnerSqlitePersistence();
+        await open(owners);
+        persistence = new ColumnSqlitePersistence();
+        await open(persistence);
+    });
+
+    teardown(async () => {
+        await persistence.closeAsync(null);
+        await owners.closeAsync(null);
+        await connection.closeAsync(null);
+    });
+
+    let assertFails = async (promise: Promise<any>) => {
+        let error = null;
+        try {
+            await promise;
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+    };
+
+    test('Generate Schema', async () => {
+        let columns = await persistence.readTableInfoAsync('PRAGMA table_info("column_dummies")');
+        let info = {};
+        columns.forEach((column) => info[column.name] = column);
+
+        assert.equal("VARCHAR(32)", info["id"].type);
+        assert.equal(1, info["id"].pk);
+        assert.equal(1, info["name"].notnull);
+        assert.equal("INTEGER", info["active"].type);
+        assert.equal("1", info["active"].dflt_value);
+        assert.equal("'It''s new'", info["label"].dflt_value);
+        assert.equal("TEXT", info["tags"].type);
+
+        let indexes = await persistence.readTableInfoAsync('PRAGMA index_list("column_dummies")');
+        assert.include(indexes.map((index) => index.name), "column_dummies_rating");
+
+        let keys = await persistence.readTableInfoAsync('PRAGMA foreign_key_list("column_dummies")');
+        assert.lengthOf(keys, 1);
+        assert.equal("column_owners", keys[0].table);
+        assert.equal("CASCADE", keys[0].on_delete);
+
+        let links = new LinkSqlitePersistence();
+        await open(links);
+        columns = await persistence.readTableInfoAsync('PRAGMA table_info("column_links")');
+        assert.deepEqual([1, 2], columns.map((column) => column.pk));
+        await links.closeAsync(null);
+    });
+
+    test('Convert Values', async () => {
+        await owners.createAsync(null, { id: "1", name: "Owner 1" });
+
+        let created = new Date("2024-01-02T03:04:05.000Z");
+        let item = await persistence.createAsync(null, {
+            id: "1", name: "Name 1", created: created, tags: ["a", "b"], profile: { age: 30 }, owner_id: "1"
+        });
+        assert.isTrue(item.active);
+        assert.equal(0, item.rating);
+        assert.equal("It's new", item.label);
+        assert.instanceOf(item.created, Date);
+        assert.equal(created.getTime(), item.created.getTime());
+        assert.deepEqual(["a", "b"], item.tags);
+        assert.deepEqual({ age: 30 }, item.profile);
+
+        item = await persistence.updatePartiallyAsync(null, "1", AnyValueMap.fromTuples("active", false, "tags", ["c"]));
+        assert.isFalse(item.active);
+        assert.deepEqual(["c"], item.tags);
+        assert.deepEqual({ age: 30 }, item.profile);
+
+        let items = await persistence.getListByIdsAsync(null, ["1"]);
+        assert.isFalse(items[0].active);
+        assert.instanceOf(items[0].created, Date);
+
+        // Malformed JSON is returned as it is stored
+        await persistence.readTableInfoAsync('UPDATE "column_dummies" SET "tags"=\'a,b\' WHERE "id"=\'1\'');
+        item = await persistence.getOneByIdAsync(null, "1");
+        assert.equal("a,b", item.tags);
+
+        // Constraints are enforced
+        await assertFails(persistence.createAsync(null, { id: "2" }));
+        await assertFails(persistence.createAsync(null, { id: "2", name: "Name 1" }));
+        await assertFails(persistence.createAsync(null, { id: "2", name: "Name 2", rating: 6 }));
+        await assertFails(persistence.createAsync(null, { id: "2", name: "Name 2", owner_id: "2" }));
+
+        // Foreign key actions are applied
+        await owners.deleteByIdAsync(null, "1");
+        assert.isNull(await persistence.getOneByIdAsync(null, "1"));
+    });
+});
@@ -13,7 +13,11 @@ suite('SqliteConnection', ()=> {
 
     setup((done) => {
         let dbConfig = ConfigParams.fromTuples(
-            'connection.database', sqliteDatabase
+            'connection.database', sqliteDatabase,
+            'options.connect_timeout', 3000,
+            'options.synchronous', 'normal',
+            'options.foreign_keys', true,
+            'options.cache_size', -4000
         );
 
         connection = new SqliteConnection();
@@ -32,4 +36,138 @@ suite('SqliteConnection', ()=> {
 
         done();
     });
-});
\ No newline at end of file
+
+    test('Connection Options', (done) => {
+        connection.getConnection().get("PRAGMA foreign_keys", (err, result) => {
+            assert.isNull(err);
+            assert.equal(1, result.foreign_keys);
+
+            connection.getConnection().get("PRAGMA cache_size", (err, result) => {
+                assert.isNull(err);
+                assert.equal(-4000, result.cache_size);
+
+                connection.getConnection().get("PRAGMA synchronous", (err, result) => {
+                    assert.isNull(err);
+                    assert.equal(1, result.synchronous);
+                    done(err);
+                });
+            });
+        });
+    });
+
+    test('Wrong Options', (done) => {
+        let connection2 = new SqliteConnection();
+        connection2.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase,
+            'options.journal_mode', 'xyz'
+        ));
+
+        connection2.open(null, (err) => {
+            assert.isNotNull(err);
+            assert.equal('WRONG_JOURNAL_MODE', err.code);
+            assert.isFalse(connection2.isOpen());
+            done();
+        });
+    });
+
+    test('Reconnect', (done) => {
+        let db = connection.getConnection();
+
+        connection.reconnect(null, (err) => {
+            assert.isNull(err);
+            assert.isTrue(connection.isOpen());
+            assert.notEqual(db, connection.getConnection());
+            done();
+        });
+    });
+
+    test('Shared In-Memory Database', (done) => {
+        let connection1 = new SqliteConnection();
+        connection1.configure(ConfigParams.fromTuples(
+            'connection.database', 'shared_test',
+            'connection.mode', 'memory',
+            'connection.cache', 'shared'
+        ));
+        let connection2 = new SqliteConnection();
+        connection2.configure(ConfigParams.fromTuples(
+            'connection.uri', 'file:shared_test?mode=memory&cache=shared'
+        ));
+
+        connection1.open(null, (err) => {
+            assert.isNull(err);
+
+            connection1.getConnection().exec('CREATE TABLE "shared_test" ("id" INTEGER)', (err) => {
+                assert.isNull(err);
+
+                connection2.open(null, (err) => {
+                    assert.isNull(err);
+
+                    connection2.getConnection().all('SELECT * FROM "shared_test"', (err, result) => {
+                        assert.isNull(err);
+                        assert.lengthOf(result, 0);
+
+                        connection2.close(null, () => {
+                            connection1.close(null, done);
+                        });
+                    });
+                });
+            });
+        });
+    });
+
+    test('Read-Only Database', (done) => {
+        let connection2 = new SqliteConnection();
+        connection2.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase,
+            'connection.mode', 'ro'
+        ));
+
+        connection2.open(null, (err) => {
+            assert.isNull(err);
+
+            connection2.getConnection().exec('CREATE TABLE "readonly_test" ("id" INTEGER)', (err) => {
+                assert.isNotNull(err);
+                assert.equal('SQLITE_READONLY', err.code);
+
+                connection2.close(null, done);
+            });
+        });
+    });
+
+    test('Existing Database Only', (done) => {
+        let connection2 = new SqliteConnection();
+        connection2.configure(ConfigParams.fromTuples(
+            'connection.uri', 'file://./data/missing.db?mode=rw'
+        ));
+
+        connection2.open(null, (err) => {
+            assert.isNotNull(err);
+            assert.equal('CONNECT_FAILED', err.code);
+            assert.isFalse(connection2.isOpen());
+
+            done();
+        });
+    });
+
+    test('Encryption Key', (done) => {
+        let connection2 = new SqliteConnection();
+        connection2.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase,
+            'credential.password', 'secret'
+        ));
+
+        connection2.open(null, (err) => {
+            // Regular sqlite3 build is not linked with SQLCipher
+            if (err != null && err.code == 'ENCRYPTION_NOT_SUPPORTED') {
+                assert.isFalse(connection2.isOpen());
+                done();
+                return;
+            }
+
+            // Test database is not encrypted
+            assert.isNotNull(err);
+            assert.equal('WRONG_KEY', err.code);
+            done();
+        });
+    });
+});
@@ -0,0 +1,178 @@
+const assert = require('chai').assert;
+const process = require('process');
+
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { ErrorCategory } from 'pip-services3-commons-node';
+import { ConflictException } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { SqliteErrorTranslator } from '../../src/persistence/SqliteErrorTranslator';
+import { IdentifiableSqlitePersistence } from '../../src/persistence/IdentifiableSqlitePersistence';
+
+class ErrorOwnerSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    public constructor() {
+        super('error_owners');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureColumns([
+            { name: "id", type: "VARCHAR(32)", primaryKey: true }
+        ]);
+    }
+}
+
+class ErrorSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    public constructor() {
+        super('error_dummies');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureColumns([
+            { name: "id", type: "VARCHAR(32)", primaryKey: true },
+            { name: "name", type: "VARCHAR(50)", nullable: false, unique: true },
+            { name: "owner_id", type: "VARCHAR(32)", references: { table: "error_owners" } }
+        ]);
+    }
+
+    public executeAsync(correlationId: string, query: string): Promise<any> {
+        return new Promise((resolve, reject) => {
+            this.executeStatement(correlationId, "all", query, null, (err, result) => {
+                if (err) reject(err);
+                else resolve(result);
+            });
+        });
+    }
+}
+
+suite('SqliteErrors', ()=> {
+    let connection: SqliteConnection;
+    let owners: ErrorOwnerSqlitePersistence;
+    let persistence: ErrorSqlitePersistence;
+
+    let sqliteDatabase = process.env['SQLITE_DB'] || './data/test.db';
+    if (sqliteDatabase == null)
+        return;
+
+    setup(async () => {
+        connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase,
+            'options.foreign_keys', true
+        ));
+        await connection.openAsync(null);
+
+        await new Promise<void>((resolve, reject) => {
+            connection.getConnection().exec('DROP TABLE IF EXISTS "error_dummies"; DROP TABLE IF EXISTS "error_owners"', (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+
+        let references = References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        );
+        owners = new ErrorOwnerSqlitePersistence();
+        owners.setReferences(references);
+        await owners.openAsync(null);
+        persistence = new ErrorSqlitePersistence();
+        persistence.setReferences(references);
+        await persistence.openAsync(null);
+    });
+
+    teardown(async () => {
+        await persistence.closeAsync(null);
+        await owners.closeAsync(null);
+        await connection.closeAsync(null);
+    });
+
+    let getError = async (promise: Promise<any>): Promise<any> => {
+        try {
+            await promise;
+        } catch (ex) {
+            return ex;
+        }
+        assert.fail("Error was expected");
+    };
+
+    test('Translate Persistence Errors', async () => {
+        await persistence.createAsync("123", { id: "1", name: "Name 1" });
+
+        let error = await getError(persistence.createAsync("123", { id: "1", name: "Name 2" }));
+        assert.instanceOf(error, ConflictException);
+        assert.equal("DUPLICATE_KEY", error.code);
+        assert.equal("123", error.correlation_id);
+        assert.equal(409, error.status);
+        assert.equal("SQLITE_CONSTRAINT", error.details.sqlite_code);
+
+        error = await getError(persistence.createAsync("123", { id: "2", name: "Name 1" }));
+        assert.equal("DUPLICATE_KEY", error.code);
+
+        error = await getError(persistence.createAsync("123", { id: "2", name: "Name 2", owner_id: "1" }));
+        assert.equal("INVALID_REFERENCE", error.code);
+        assert.equal(ErrorCategory.BadRequest, error.category);
+
+        error = await getError(persistence.createAsync("123", { id: "2" }));
+        assert.equal("MISSING_VALUE", error.code);
+
+        error = await getError(persistence.executeAsync("123", "SELEC * FROM error_dummies"));
+        assert.equal("SQL_ERROR", error.code);
+        assert.equal(ErrorCategory.Internal, error.category);
+
+        // Batch errors are translated per item
+        let result = await persistence.createManyAsync("123", [{ id: "3", name: "Name 3" }, { id: "1", name: "Name 4" }]);
+        assert.isNull(result.errors[0]);
+        assert.equal("DUPLICATE_KEY", result.errors[1].code);
+    });
+
+    test('Report Batch Errors Without Connection', async () => {
+        let other = new ErrorSqlitePersistence();
+        let error = await getError(other.createManyAsync("123", [{ id: "1", name: "Name 1" }]));
+        assert.equal("NO_CONNECTION", error.code);
+
+        // Connection is removed while the batch transaction is starting
+        let references = References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        );
+        other.setReferences(references);
+        await other.openAsync(null);
+        let promise = other.setManyAsync("123", [{ id: "1", name: "Name 1" }]);
+        other.unsetReferences();
+        let result = await promise;
+        assert.isNull(result.items[0]);
+        assert.equal("NO_CONNECTION", result.errors[0].code);
+
+        other.setReferences(references);
+        await other.closeAsync(null);
+    });
+
+    test('Translate Clear Errors', async () => {
+        await new Promise<void>((resolve, reject) => {
+            connection.getConnection().exec('DROP TABLE "error_dummies"', (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+
+        let error = await getError(persistence.clearAsync("123"));
+        assert.equal("SQL_ERROR", error.code);
+        assert.equal("123", error.correlation_id);
+    });
+
+    test('Translate Driver Errors', () => {
+        let busy: any = new Error("SQLITE_BUSY: database is locked");
+        busy.code = "SQLITE_BUSY";
+        let error = SqliteErrorTranslator.translate("123", busy);
+        assert.equal("DATABASE_BUSY", error.code);
+        assert.equal(503, error.status);
+
+        let other = new Error("Other error");
+        assert.equal(other, SqliteErrorTranslator.translate("123", other));
+        assert.isNull(SqliteErrorTranslator.translate("123", null));
+
+        let translated = SqliteErrorTranslator.translate("123", error);
+        assert.equal(error, translated);
+    });
+});
@@ -0,0 +1,33 @@
+const assert = require('chai').assert;
+
+import { SqliteFilter } from '../../src/persistence/SqliteFilter';
+
+suite('SqliteFilter', ()=> {
+
+    test('Append Conditions', () => {
+        let filter = new SqliteFilter();
+        assert.isTrue(filter.isEmpty());
+
+        filter.append('"key"=?', 'ABC');
+        filter.append(null);
+        filter.append('"count" BETWEEN ? AND ?', 1, 10);
+
+        assert.isFalse(filter.isEmpty());
+        assert.equal('("key"=?) AND ("count" BETWEEN ? AND ?)', filter.condition);
+        assert.deepEqual(['ABC', 1, 10], filter.params);
+    });
+
+    test('From Value', () => {
+        let filter = SqliteFilter.fromValue(null);
+        assert.isTrue(filter.isEmpty());
+        assert.lengthOf(filter.params, 0);
+
+        filter = SqliteFilter.fromValue('"key"=\'ABC\'');
+        assert.equal('"key"=\'ABC\'', filter.condition);
+        assert.lengthOf(filter.params, 0);
+
+        filter = SqliteFilter.fromValue({ condition: '"key"=?', params: ['ABC'] });
+        assert.equal('"key"=?', filter.condition);
+        assert.deepEqual(['ABC'], filter.params);
+    });
+});
@@ -0,0 +1,132 @@
+const assert = require('chai').assert;
+const process = require('process');
+
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { SqliteFilter } from '../../src/persistence/SqliteFilter';
+import { IdentifiableJsonSqlitePersistence } from '../../src/persistence/IdentifiableJsonSqlitePersistence';
+
+class IndexedJsonSqlitePersistence extends IdentifiableJsonSqlitePersistence<any, string> {
+    public constructor() {
+        super('indexed_dummies_json');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureJsonColumn("key", { type: "VARCHAR(50)" });
+        this.ensureJsonColumn("address.city", { stored: true });
+        this.ensureTable();
+        this.ensureJsonIndex("indexed_dummies_json_key", { key: true }, { unique: true });
+        this.ensureJsonIndex("indexed_dummies_json_city", { "address.city": true });
+        this.ensureJsonIndex("indexed_dummies_json_rating", { rating: false });
+    }
+
+    public getListByFieldAsync(field: string, value: any, sort: any): Promise<any[]> {
+        let filter = new SqliteFilter(this.composeField(field) + "=?", [value]);
+        return this.getListByFilterAsync(null, filter, sort, null);
+    }
+
+    public explainAsync(field: string, sort: any): Promise<string> {
+        let query = "EXPLAIN QUERY PLAN SELECT * FROM " + this.quoteIdentifier(this._tableName);
+        if (field != null)
+            query += " WHERE " + this.composeField(field) + "=?";
+        query += " ORDER BY " + this.composeSort(sort);
+        return new Promise((resolve, reject) => {
+            this.executeStatement(null, "all", query, field != null ? [null] : [], (err, rows) => {
+                if (err) reject(err);
+                else resolve(rows.map((row) => row.detail).join("; "));
+            });
+        });
+    }
+}
+
+suite('SqliteJsonIndexes', ()=> {
+    let connection: SqliteConnection;
+    let persistence: IndexedJsonSqlitePersistence;
+
+    let sqliteDatabase = process.env['SQLITE_DB'] || './data/test.db';
+    if (sqliteDatabase == null)
+        return;
+
+    setup((done) => {
+        connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase
+        ));
+
+        persistence = new IndexedJsonSqlitePersistence();
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+
+        connection.open(null, (err) => {
+            if (err) {
+                done(err);
+                return;
+            }
+
+            connection.getConnection().exec('DROP TABLE IF EXISTS "indexed_dummies_json"', (err) => {
+                if (err) {
+                    done(err);
+                    return;
+                }
+
+                persistence.open(null, done);
+            });
+        });
+    });
+
+    teardown((done) => {
+        persistence.close(null, (err) => {
+            connection.close(null, done);
+        });
+    });
+
+    test('Generated Columns', async () => {
+        await persistence.createManyAsync(null, [
+            { id: "1", key: "Key 1", rating: 3, address: { city: "Boston" } },
+            { id: "2", key: "Key 2", rating: 5, address: { city: "Boston" } },
+            { id: "3", key: "Key 3", rating: 4, address: { city: "Denver" } }
+        ]);
+
+        // Items keep their documents
+        let item = await persistence.getOneByIdAsync(null, "1");
+        assert.deepEqual({ id: "1", key: "Key 1", rating: 3, address: { city: "Boston" } }, item);
+
+        // Filters and sorts use generated columns
+        let items = await persistence.getListByFieldAsync("address.city", "Boston", [{ name: "rating", ascending: false }]);
+        assert.deepEqual(["2", "1"], items.map((item) => item.id));
+
+        items = await persistence.getListByFieldAsync("key", "Key 3", null);
+        assert.lengthOf(items, 1);
+
+        // Generated columns follow document updates
+        await persistence.updateAsync(null, { id: "3", key: "Key 4", rating: 4, address: { city: "Boston" } });
+        items = await persistence.getListByFieldAsync("address.city", "Boston", "id");
+        assert.deepEqual(["1", "2", "3"], items.map((item) => item.id));
+
+        // Unique index is enforced
+        let error = null;
+        try {
+            await persistence.createAsync(null, { id: "5", key: "Key 1" });
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+    });
+
+    test('Index Usage', async () => {
+        let plan = await persistence.explainAsync("key", [{ name: "key" }]);
+        assert.include(plan, "indexed_dummies_json_key");
+
+        plan = await persistence.explainAsync("address.city", [{ name: "address.city" }]);
+        assert.include(plan, "indexed_dummies_json_city");
+
+        // Indexes on document paths are used without generated columns
+        plan = await persistence.explainAsync(null, [{ name: "rating", ascending: false }]);
+        assert.include(plan, "indexed_dummies_json_rating");
+        assert.notInclude(plan, "TEMP B-TREE");
+    });
+});
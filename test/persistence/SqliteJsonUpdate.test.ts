@@ -0,0 +1,140 @@
+const assert = require('chai').assert;
+const process = require('process');
+
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { SqliteJsonUpdate } from '../../src/persistence/SqliteJsonUpdate';
+import { IdentifiableJsonSqlitePersistence } from '../../src/persistence/IdentifiableJsonSqlitePersistence';
+
+class DocumentSqlitePersistence extends IdentifiableJsonSqlitePersistence<any, string> {
+    public constructor() {
+        super('document_dummies_json');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureTable();
+    }
+}
+
+suite('SqliteJsonUpdate', ()=> {
+    let connection: SqliteConnection;
+    let persistence: DocumentSqlitePersistence;
+
+    let sqliteDatabase = process.env['SQLITE_DB'] || './data/test.db';
+    if (sqliteDatabase == null)
+        return;
+
+    setup((done) => {
+        connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase
+        ));
+
+        persistence = new DocumentSqlitePersistence();
+        persistence.configure(ConfigParams.fromTuples(
+            'options.version_field', 'version',
+            'options.update_time_field', 'update_time'
+        ));
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+
+        connection.open(null, (err) => {
+            if (err) {
+                done(err);
+                return;
+            }
+
+            connection.getConnection().exec('DROP TABLE IF EXISTS "document_dummies_json"', (err) => {
+                if (err) {
+                    done(err);
+                    return;
+                }
+
+                persistence.open(null, done);
+            });
+        });
+    });
+
+    teardown((done) => {
+        persistence.close(null, (err) => {
+            connection.close(null, done);
+        });
+    });
+
+    let assertError = async (promise: Promise<any>, code: string) => {
+        let error = null;
+        try {
+            await promise;
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+        assert.equal(code, error.code);
+    };
+
+    test('Compose Update', () => {
+        let update = new SqliteJsonUpdate().push("tags", "a").push("tags", "b", "c").inc("count");
+        assert.lengthOf(update.operations, 2);
+        assert.deepEqual(["a", "b", "c"], update.operations[0].values);
+        assert.deepEqual([1], update.operations[1].values);
+
+        update = SqliteJsonUpdate.fromValue({ set: { "a.b": 1 }, unset: ["c"], inc: { d: 2 }, push: { e: [1] }, pull: { f: "x" } });
+        assert.deepEqual(
+            [SqliteJsonUpdate.Set, SqliteJsonUpdate.Unset, SqliteJsonUpdate.Inc, SqliteJsonUpdate.Push, SqliteJsonUpdate.Pull],
+            update.operations.map((operation) => operation.type)
+        );
+        assert.deepEqual([[1]], update.operations[3].values);
+        assert.isTrue(SqliteJsonUpdate.fromValue(null).isEmpty());
+    });
+
+    test('Update Document', async () => {
+        let item = await persistence.createAsync(null, {
+            id: "1", key: "Key 1", count: 1, address: { city: "Boston", zip: "02101" },
+            tags: ["a", "b", "a", { k: 1 }], flags: [true, false]
+        });
+        let updateTime = item.update_time;
+
+        item = await persistence.updateDocumentAsync(null, "1", new SqliteJsonUpdate()
+            .set("address.city", "Denver")
+            .set("profile.name", { first: "John" })
+            .unset("address.zip")
+            .inc("count", 2)
+            .inc("visits", -1)
+            .push("labels", "x", { y: 1 })
+            .pull("tags", "a", { k: 1 })
+        );
+        assert.deepEqual({ city: "Denver" }, item.address);
+        assert.deepEqual({ name: { first: "John" } }, item.profile);
+        assert.equal(3, item.count);
+        assert.equal(-1, item.visits);
+        assert.deepEqual(["x", { y: 1 }], item.labels);
+        assert.deepEqual(["b"], item.tags);
+        assert.deepEqual([true, false], item.flags);
+        assert.equal(2, item.version);
+        assert.isTrue(item.update_time >= updateTime);
+
+        // Object form and push to existing arrays
+        item = await persistence.updateDocumentAsync(null, "1", { push: { tags: "c" }, pull: { flags: false }, unset: ["profile"] });
+        assert.deepEqual(["b", "c"], item.tags);
+        assert.deepEqual([true], item.flags);
+        assert.isUndefined(item.profile);
+        assert.equal("Key 1", item.key);
+
+        // The update is stored
+        assert.deepEqual(item, await persistence.getOneByIdAsync(null, "1"));
+
+        // Missing items are not updated
+        assert.isNull(await persistence.updateDocumentAsync(null, "2", { inc: { count: 1 } }));
+
+        // Invalid and conflicting operations are rejected
+        await assertError(persistence.updateDocumentAsync(null, "1", { set: { "a'b": 1 } }), "INVALID_FIELD");
+        await assertError(persistence.updateDocumentAsync(null, "1", { set: { "address": {} }, unset: ["address.city"] }), "CONFLICTING_UPDATE");
+        await assertError(persistence.updateDocumentAsync(null, "1", { set: { id: "2" } }), "CONFLICTING_UPDATE");
+        await assertError(persistence.updateDocumentAsync(null, "1", { inc: { count: "1" } }), "INVALID_AMOUNT");
+        await assertError(persistence.updateDocumentAsync(null, "1", { inc: { count: null } }), "INVALID_AMOUNT");
+    });
+});
@@ -0,0 +1,123 @@
+const assert = require('chai').assert;
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { SqliteMaintenance } from '../../src/persistence/SqliteMaintenance';
+
+suite('SqliteMaintenance', ()=> {
+    let connection: SqliteConnection;
+    let maintenance: SqliteMaintenance;
+
+    let directory = path.join(os.tmpdir(), 'pip-sqlite-maintenance-test');
+    let database = path.join(directory, 'maintained.db');
+
+    let execute = (method: string, query: string): Promise<any> => {
+        return new Promise((resolve, reject) => {
+            connection.getConnection()[method](query, (err, result) => {
+                if (err) reject(err);
+                else resolve(result);
+            });
+        });
+    };
+
+    let freePages = async (): Promise<number> => {
+        let result = await execute("get", "PRAGMA freelist_count");
+        return result.freelist_count;
+    };
+
+    let createMaintenance = (config: ConfigParams): SqliteMaintenance => {
+        let maintenance = new SqliteMaintenance();
+        maintenance.configure(config);
+        maintenance.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+        return maintenance;
+    };
+
+    setup(async () => {
+        fs.rmSync(directory, { recursive: true, force: true });
+        fs.mkdirSync(directory, { recursive: true });
+
+        connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', database,
+            'options.journal_mode', 'WAL'
+        ));
+        await connection.openAsync(null);
+
+        await execute("exec", "PRAGMA auto_vacuum=INCREMENTAL; VACUUM; "
+            + "CREATE TABLE items (id INTEGER PRIMARY KEY, data TEXT); "
+            + "INSERT INTO items (data) SELECT zeroblob(2000) FROM (WITH RECURSIVE n(i) AS "
+            + "(SELECT 1 UNION ALL SELECT i+1 FROM n WHERE i<50) SELECT i FROM n); "
+            + "DELETE FROM items");
+
+        maintenance = createMaintenance(ConfigParams.fromTuples('options.interval', 0));
+        await maintenance.openAsync(null);
+    });
+
+    teardown(async () => {
+        await maintenance.closeAsync(null);
+        await connection.closeAsync(null);
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('Run Tasks On Demand', async () => {
+        await maintenance.optimizeAsync(null);
+        await maintenance.analyzeAsync(null);
+
+        let result = await maintenance.checkpointAsync(null);
+        assert.isFalse(result.busy);
+        assert.equal(result.log, result.checkpointed);
+
+        assert.isAbove(await freePages(), 0);
+        await maintenance.incrementalVacuumAsync(null, 2);
+        let pages = await freePages();
+        assert.isAbove(pages, 0);
+        await maintenance.incrementalVacuumAsync(null);
+        assert.equal(0, await freePages());
+
+        await maintenance.vacuumAsync(null);
+
+        assert.deepEqual([], await maintenance.checkIntegrityAsync(null, true));
+        assert.deepEqual([], await maintenance.checkIntegrityAsync(null, false));
+    });
+
+    test('Scheduled Maintenance', async () => {
+        await maintenance.closeAsync(null);
+
+        maintenance = createMaintenance(ConfigParams.fromTuples(
+            'options.interval', 20,
+            'options.analyze', true,
+            'options.vacuum', 'incremental',
+            'options.integrity_check', 'full'
+        ));
+        await maintenance.openAsync(null);
+        assert.isTrue(maintenance.isOpen());
+
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        await maintenance.closeAsync(null);
+
+        assert.equal(0, await freePages());
+        let stats = await execute("all", "SELECT * FROM sqlite_master WHERE name = 'sqlite_stat1'");
+        assert.lengthOf(stats, 1);
+    });
+
+    test('Wrong Configuration', async () => {
+        let wrong = createMaintenance(ConfigParams.fromTuples('options.vacuum', 'partial'));
+
+        let error = null;
+        try {
+            await wrong.openAsync(null);
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+        assert.equal("WRONG_VACUUM_MODE", error.code);
+        assert.isFalse(wrong.isOpen());
+    });
+});
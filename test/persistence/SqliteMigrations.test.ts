@@ -0,0 +1,130 @@
+const assert = require('chai').assert;
+const process = require('process');
+
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { IdentifiableSqlitePersistence } from '../../src/persistence/IdentifiableSqlitePersistence';
+
+class MigratedSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    private _schema: string[];
+    private _versions: any[];
+
+    public constructor(schema: string[], versions: any[]) {
+        super('migrated_dummies');
+        this._schema = schema;
+        this._versions = versions;
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        for (let statement of this._schema)
+            this.ensureSchema(statement);
+        for (let index = 0; index < this._versions.length; index++)
+            this.ensureMigration(index + 1, this._versions[index]);
+    }
+
+    public getColumns(): Promise<string[]> {
+        return new Promise((resolve, reject) => {
+            this.executeStatement(null, "all", "PRAGMA table_info(" + this.quoteIdentifier(this._tableName) + ")", null, (err, result) => {
+                if (err) reject(err);
+                else resolve(result.map((column) => column.name));
+            });
+        });
+    }
+}
+
+suite('SqliteMigrations', ()=> {
+    let connection: SqliteConnection;
+
+    let sqliteDatabase = process.env['SQLITE_DB'] || './data/test.db';
+    if (sqliteDatabase == null)
+        return;
+
+    let version1 = 'CREATE TABLE "migrated_dummies" ("id" VARCHAR(32) PRIMARY KEY, "key" VARCHAR(50))';
+    let version2 = 'ALTER TABLE "migrated_dummies" ADD COLUMN "content" TEXT';
+
+    let openPersistence = async (schema: string[], versions: any[]): Promise<MigratedSqlitePersistence> => {
+        let persistence = new MigratedSqlitePersistence(schema, versions);
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+        await persistence.openAsync(null);
+        return persistence;
+    };
+
+    setup((done) => {
+        connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase
+        ));
+
+        connection.open(null, (err) => {
+            if (err) {
+                done(err);
+                return;
+            }
+
+            connection.getConnection().exec('DROP TABLE IF EXISTS "migrated_dummies"; '
+                + 'DROP TABLE IF EXISTS "__migrations"', done);
+        });
+    });
+
+    teardown((done) => {
+        connection.close(null, done);
+    });
+
+    test('Apply Migrations', async () => {
+        let persistence = await openPersistence([], [version1]);
+        await persistence.createAsync(null, { id: "1", key: "Key 1" });
+        assert.sameMembers(["id", "key"], await persistence.getColumns());
+        await persistence.closeAsync(null);
+
+        // Upgrade existing table
+        persistence = await openPersistence([], [version1, version2]);
+        assert.sameMembers(["id", "key", "content"], await persistence.getColumns());
+        let item = await persistence.getOneByIdAsync(null, "1");
+        assert.equal("Key 1", item.key);
+        await persistence.closeAsync(null);
+
+        // Applied migrations are not repeated
+        persistence = await openPersistence([], [version1, version2]);
+        assert.isTrue(persistence.isOpen());
+        await persistence.closeAsync(null);
+    });
+
+    test('Rollback Failed Migration', async () => {
+        let persistence = await openPersistence([], [version1]);
+        await persistence.closeAsync(null);
+
+        let error = null;
+        try {
+            await openPersistence([], [version1, [version2, "INVALID STATEMENT"]]);
+        } catch (ex) {
+            error = ex;
+        }
+
+        assert.isNotNull(error);
+        assert.equal("MIGRATION_FAILED", error.code);
+        assert.equal(2, error.details.version);
+        assert.isFalse(connection.isInTransaction());
+
+        persistence = await openPersistence([], [version1]);
+        assert.sameMembers(["id", "key"], await persistence.getColumns());
+        await persistence.closeAsync(null);
+    });
+
+    test('Skip Migrations for New Table', async () => {
+        let schema = ['CREATE TABLE "migrated_dummies" ("id" VARCHAR(32) PRIMARY KEY, "key" VARCHAR(50), "content" TEXT)'];
+
+        let persistence = await openPersistence(schema, [version1, version2]);
+        assert.sameMembers(["id", "key", "content"], await persistence.getColumns());
+        await persistence.closeAsync(null);
+
+        // Migrations were recorded as applied
+        persistence = await openPersistence(schema, [version1, version2]);
+        assert.isTrue(persistence.isOpen());
+        await persistence.closeAsync(null);
+    });
+});
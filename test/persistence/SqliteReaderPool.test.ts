@@ -0,0 +1,194 @@
+const assert = require('chai').assert;
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { IdentifiableSqlitePersistence } from '../../src/persistence/IdentifiableSqlitePersistence';
+
+class PooledSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    public constructor() {
+        super('pooled_dummies');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureColumns([
+            { name: "id", type: "VARCHAR(32)", primaryKey: true },
+            { name: "key", type: "VARCHAR(50)" }
+        ]);
+    }
+
+    public getAllAsync(correlationId: string): Promise<any[]> {
+        return this.getListByFilterAsync(correlationId, null, null, null);
+    }
+
+    public countSlowlyAsync(correlationId: string): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.executeStatement(correlationId, "get", "WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i+1 FROM n WHERE i<1000000) "
+                + "SELECT COUNT(*) AS count FROM n", null, (err, result) => {
+                if (err) reject(err);
+                else resolve(result.count);
+            });
+        });
+    }
+
+    public getClient(): any {
+        return this._client;
+    }
+}
+
+suite('SqliteReaderPool', ()=> {
+    let connection: SqliteConnection;
+    let persistence: PooledSqlitePersistence;
+
+    let directory = path.join(os.tmpdir(), 'pip-sqlite-pool-test');
+    let database = path.join(directory, 'pooled.db');
+
+    let openConnection = async (journalMode: string, cache: string = 'private'): Promise<SqliteConnection> => {
+        let connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', database,
+            'connection.cache', cache,
+            'options.journal_mode', journalMode,
+            'options.max_pool_size', 2
+        ));
+        await connection.openAsync(null);
+        return connection;
+    };
+
+    setup(async () => {
+        fs.rmSync(directory, { recursive: true, force: true });
+        fs.mkdirSync(directory, { recursive: true });
+
+        connection = await openConnection('WAL');
+
+        persistence = new PooledSqlitePersistence();
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+        await persistence.openAsync(null);
+    });
+
+    teardown(async () => {
+        await persistence.closeAsync(null);
+        await connection.closeAsync(null);
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('Route Statements', async () => {
+        assert.equal(2, connection.getReaderCount());
+
+        let readers = [];
+        let getReader = connection.getReader.bind(connection);
+        connection.getReader = () => {
+            let reader = getReader();
+            readers.push(reader);
+            return reader;
+        };
+
+        await persistence.createAsync(null, { id: "1", key: "Key 1" });
+        assert.lengthOf(readers, 0);
+
+        let item = await persistence.getOneByIdAsync(null, "1");
+        assert.equal("Key 1", item.key);
+        assert.lengthOf(readers, 1);
+        assert.notEqual(connection.getConnection(), readers[0]);
+
+        // Readers are read-only
+        let error = await new Promise((resolve) => {
+            readers[0].run('DELETE FROM "pooled_dummies"', (err) => resolve(err));
+        });
+        assert.isNotNull(error);
+
+        // Transactions are pinned to the writer
+        readers = [];
+        await connection.withTransactionAsync(null, async () => {
+            await persistence.createAsync(null, { id: "2", key: "Key 2" });
+            let item = await persistence.getOneByIdAsync(null, "2");
+            assert.equal("Key 2", item.key);
+        });
+        assert.lengthOf(readers, 1);
+        assert.equal(connection.getConnection(), readers[0]);
+
+        assert.lengthOf(await persistence.getAllAsync(null), 2);
+    });
+
+    test('Concurrent Reads and Writes', async () => {
+        let items = [];
+        for (let index = 0; index < 20; index++)
+            items.push({ id: String(index), key: "Key " + index });
+        await persistence.createManyAsync(null, items);
+
+        // Reads see all committed writes
+        let results = await Promise.all(items.map((item, index) => index % 2 == 0
+            ? persistence.getOneByIdAsync(null, item.id)
+            : persistence.updateAsync(null, { id: item.id, key: "Updated " + index })));
+        results.forEach((result) => assert.isNotNull(result));
+
+        let all = await persistence.getAllAsync(null);
+        assert.lengthOf(all, 20);
+        assert.lengthOf(all.filter((item) => item.key.startsWith("Updated")), 10);
+    });
+
+    test('Readers with Shared Cache', async () => {
+        await persistence.closeAsync(null);
+        await connection.closeAsync(null);
+
+        connection = await openConnection('WAL', 'shared');
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+        await persistence.openAsync(null);
+        assert.equal(2, connection.getReaderCount());
+
+        // Readers keep private cache and see only committed data
+        let results = await Promise.all([
+            connection.withTransactionAsync(null, async () => {
+                await persistence.createAsync(null, { id: "1", key: "Key 1" });
+                await new Promise((resolve) => setTimeout(resolve, 50));
+            }),
+            new Promise((resolve) => setTimeout(resolve, 20)).then(() => persistence.getAllAsync(null))
+        ]);
+        assert.lengthOf(results[1], 0);
+        assert.lengthOf(await persistence.getAllAsync(null), 1);
+    });
+
+    test('Single Handle Without WAL', async () => {
+        await persistence.closeAsync(null);
+        await connection.closeAsync(null);
+
+        connection = await openConnection('DELETE');
+        assert.equal(0, connection.getReaderCount());
+        assert.equal(connection.getConnection(), connection.getReader());
+
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+        await persistence.openAsync(null);
+    });
+
+    test('Reconnect', async () => {
+        let reader = connection.getReader();
+
+        // Statements in flight complete on the old handles
+        let results = await Promise.all([
+            persistence.countSlowlyAsync(null),
+            new Promise<void>((resolve, reject) => {
+                connection.reconnect(null, (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                });
+            })
+        ]);
+        assert.equal(1000000, results[0]);
+
+        assert.equal(2, connection.getReaderCount());
+        assert.notEqual(reader, connection.getReader());
+        assert.equal(connection.getConnection(), persistence.getClient());
+        assert.lengthOf(await persistence.getAllAsync(null), 0);
+    });
+});
@@ -0,0 +1,183 @@
+const assert = require('chai').assert;
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { IdentifiableSqlitePersistence } from '../../src/persistence/IdentifiableSqlitePersistence';
+
+class CounterSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    public constructor() {
+        super('counter_dummies');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureColumns([
+            { name: "id", type: "VARCHAR(32)", primaryKey: true },
+            { name: "count", type: "INTEGER", default: 0 }
+        ]);
+    }
+
+    public incrementAsync(correlationId: string, id: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.executeStatement(correlationId, "run", 'UPDATE "counter_dummies" SET "count"="count"+1 WHERE "id"=?',
+                [id], (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    public executeScriptAsync(correlationId: string, script: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.executeStatement(correlationId, "exec", script, null, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    public isIdempotent(query: string): boolean {
+        return this.isIdempotentStatement("run", query);
+    }
+}
+
+suite('SqliteRetries', ()=> {
+    let connection: SqliteConnection;
+    let persistence: CounterSqlitePersistence;
+    let locker: any;
+
+    let directory = path.join(os.tmpdir(), 'pip-sqlite-retries-test');
+    let database = path.join(directory, 'retries.db');
+
+    let lockDatabase = (duration: number): Promise<void> => {
+        return new Promise((resolve, reject) => {
+            locker.exec("BEGIN EXCLUSIVE", (err) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                setTimeout(() => locker.exec("COMMIT", () => {}), duration);
+                resolve();
+            });
+        });
+    };
+
+    setup(async () => {
+        fs.rmSync(directory, { recursive: true, force: true });
+        fs.mkdirSync(directory, { recursive: true });
+
+        // Busy timeout is disabled to get SQLITE_BUSY immediately
+        connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', database,
+            'options.connect_timeout', 0
+        ));
+        await connection.openAsync(null);
+
+        persistence = new CounterSqlitePersistence();
+        persistence.configure(ConfigParams.fromTuples(
+            'options.max_retries', 5,
+            'options.retry_delay', 20,
+            'options.max_retry_delay', 100
+        ));
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+        await persistence.openAsync(null);
+
+        // Another connection simulates a concurrent process
+        let sqlite = require('sqlite3');
+        locker = await new Promise((resolve, reject) => {
+            let db = new sqlite.Database(database, (err) => {
+                if (err) reject(err);
+                else resolve(db);
+            });
+        });
+    });
+
+    teardown(async () => {
+        await new Promise((resolve) => locker.close(resolve));
+        await persistence.closeAsync(null);
+        await connection.closeAsync(null);
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('Retry Idempotent Statements', async () => {
+        await lockDatabase(100);
+        let item = await persistence.createAsync(null, { id: "1" });
+        assert.equal("1", item.id);
+
+        await lockDatabase(100);
+        item = await persistence.getOneByIdAsync(null, "1");
+        assert.equal(0, item.count);
+    });
+
+    test('Fail Non-Idempotent Statements', async () => {
+        await persistence.createAsync(null, { id: "1" });
+
+        await lockDatabase(100);
+        let error = null;
+        try {
+            await persistence.incrementAsync(null, "1");
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+        assert.equal("DATABASE_BUSY", error.code);
+
+        // Inside a transaction all statements are retried
+        await new Promise((resolve) => setTimeout(resolve, 150));
+        await connection.withTransactionAsync(null, async () => {
+            await lockDatabase(100);
+            await persistence.incrementAsync(null, "1");
+        });
+
+        let item = await persistence.getOneByIdAsync(null, "1");
+        assert.equal(1, item.count);
+    });
+
+    test('Fail Scripts', async () => {
+        await persistence.createAsync(null, { id: "1" });
+        await new Promise((resolve) => setTimeout(resolve, 150));
+
+        // Scripts are not retried even inside a transaction
+        let error = null;
+        try {
+            await connection.withTransactionAsync(null, async () => {
+                await lockDatabase(100);
+                await persistence.executeScriptAsync(null, 'UPDATE "counter_dummies" SET "count"=5; '
+                    + 'UPDATE "counter_dummies" SET "count"="count"+1');
+            });
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+        assert.equal("DATABASE_BUSY", error.code);
+
+        await new Promise((resolve) => setTimeout(resolve, 150));
+        let item = await persistence.getOneByIdAsync(null, "1");
+        assert.equal(0, item.count);
+    });
+
+    test('Classify Statements', () => {
+        assert.isTrue(persistence.isIdempotent('INSERT INTO "t" ("id","name") VALUES (?,?)'));
+        assert.isTrue(persistence.isIdempotent('UPDATE "t" SET "name"=?, "tags"=\'a-b\' WHERE "id"=?'));
+        assert.isTrue(persistence.isIdempotent('DELETE FROM "t" WHERE "id"=?'));
+        assert.isTrue(persistence.isIdempotent('CREATE TABLE IF NOT EXISTS "t" ("id" TEXT)'));
+        assert.isFalse(persistence.isIdempotent('UPDATE "t" SET "count"="count"+1 WHERE "id"=?'));
+        assert.isFalse(persistence.isIdempotent('UPDATE "t" SET "count"="count"*2 WHERE "id"=?'));
+        assert.isFalse(persistence.isIdempotent('UPDATE "t" SET "count"="count"/2 WHERE "id"=?'));
+        assert.isFalse(persistence.isIdempotent('UPDATE "t" SET "data"=JSON_INSERT("data",\'$[#]\',?)'));
+        assert.isFalse(persistence.isIdempotent('UPDATE "t" SET "data"=JSON_REMOVE("data",\'$[0]\') WHERE "id"=?'));
+        assert.isFalse(persistence.isIdempotent('UPDATE "t" SET "data"=JSON_REMOVE("data",\'$.tags[1]\') WHERE "id"=?'));
+        assert.isTrue(persistence.isIdempotent('UPDATE "t" SET "data"=JSON_REMOVE("data",\'$.tags\') WHERE "id"=?'));
+        assert.isTrue(persistence.isIdempotent('INSERT INTO "t" ("id","name") VALUES (?,?) RETURNING *'));
+        assert.isFalse(persistence.isIdempotent('DELETE FROM "t"; DELETE FROM "s"'));
+        assert.isFalse(persistence.isIdempotent('CREATE TABLE "t" ("id" TEXT)'));
+    });
+});
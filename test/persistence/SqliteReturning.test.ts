@@ -0,0 +1,98 @@
+const assert = require('chai').assert;
+const process = require('process');
+
+import { AnyValueMap } from 'pip-services3-commons-node';
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { IdentifiableSqlitePersistence } from '../../src/persistence/IdentifiableSqlitePersistence';
+
+class DefaultedSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    private _returning: boolean;
+
+    public constructor(returning: boolean) {
+        super('defaulted_dummies');
+        this._returning = returning;
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureSchema('CREATE TABLE "defaulted_dummies" ("id" VARCHAR(32) PRIMARY KEY, "key" VARCHAR(50), '
+            + '"status" VARCHAR(20) DEFAULT \'new\', "key_length" INTEGER GENERATED ALWAYS AS (LENGTH("key")))');
+    }
+
+    protected isReturningSupported(): boolean {
+        return this._returning && super.isReturningSupported();
+    }
+}
+
+suite('SqliteReturning', ()=> {
+    let connection: SqliteConnection;
+
+    let sqliteDatabase = process.env['SQLITE_DB'] || './data/test.db';
+    if (sqliteDatabase == null)
+        return;
+
+    setup((done) => {
+        connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase
+        ));
+
+        connection.open(null, (err) => {
+            if (err) {
+                done(err);
+                return;
+            }
+
+            connection.getConnection().exec('DROP TABLE IF EXISTS "defaulted_dummies"', done);
+        });
+    });
+
+    teardown((done) => {
+        connection.close(null, done);
+    });
+
+    let testReturning = async (returning: boolean) => {
+        let persistence = new DefaultedSqlitePersistence(returning);
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+        await persistence.openAsync(null);
+
+        // Defaults are returned on create
+        let item = await persistence.createAsync(null, { id: "1", key: "Key 1" });
+        assert.equal("new", item.status);
+        assert.equal(5, item.key_length);
+
+        // Generated columns are returned on update
+        item = await persistence.updatePartiallyAsync(null, "1", AnyValueMap.fromTuples("key", "Key 22"));
+        assert.equal("Key 22", item.key);
+        assert.equal(6, item.key_length);
+
+        item = await persistence.setAsync(null, { id: "2", key: "Key 3" });
+        assert.equal("new", item.status);
+
+        // Missing items are not updated
+        item = await persistence.updateAsync(null, { id: "3", key: "Key 4" });
+        assert.isNull(item);
+
+        await persistence.closeAsync(null);
+    };
+
+    test('Sqlite Version', (done) => {
+        assert.isString(connection.getSqliteVersion());
+        assert.isTrue(connection.isSqliteVersionAtLeast("3.0.0"));
+        assert.isFalse(connection.isSqliteVersionAtLeast("99.0.0"));
+        done();
+    });
+
+    test('Returning Clause', async () => {
+        await testReturning(true);
+    });
+
+    test('Select Fallback', async () => {
+        await testReturning(false);
+    });
+});
@@ -0,0 +1,155 @@
+const assert = require('chai').assert;
+const process = require('process');
+
+import { ConfigParams } from 'pip-services3-commons-node';
+import { DataPage } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { PagingParams } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { SqliteFilter } from '../../src/persistence/SqliteFilter';
+import { SqliteSearchResult } from '../../src/persistence/SqliteSearchResult';
+import { IdentifiableSqlitePersistence } from '../../src/persistence/IdentifiableSqlitePersistence';
+import { IdentifiableJsonSqlitePersistence } from '../../src/persistence/IdentifiableJsonSqlitePersistence';
+
+class SearchableSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    public constructor() {
+        super('searchable_dummies');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureSchema('CREATE TABLE "searchable_dummies" ("id" VARCHAR(32) PRIMARY KEY, "key" VARCHAR(50), '
+            + '"title" TEXT, "body" TEXT)');
+        this.ensureSearchIndex(["title", "body"]);
+    }
+
+    public searchByKeyAsync(query: string, key: string): Promise<DataPage<SqliteSearchResult<any>>> {
+        let filter = new SqliteFilter(this.composeField("key") + "=?", [key]);
+        return this.searchByFilterAsync(null, query, filter, null);
+    }
+}
+
+class SearchableJsonSqlitePersistence extends IdentifiableJsonSqlitePersistence<any, string> {
+    public constructor(tableName: string = 'searchable_dummies_json') {
+        super(tableName);
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureTable();
+        this.ensureSearchIndex(["title", "body"]);
+    }
+
+    public searchByKeyAsync(query: string, key: string): Promise<DataPage<SqliteSearchResult<any>>> {
+        let filter = new SqliteFilter(this.composeField("key") + "=?", [key]);
+        return this.searchByFilterAsync(null, query, filter, null);
+    }
+}
+
+suite('SqliteSearch', ()=> {
+    let connection: SqliteConnection;
+
+    let sqliteDatabase = process.env['SQLITE_DB'] || './data/test.db';
+    if (sqliteDatabase == null)
+        return;
+
+    setup((done) => {
+        connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase
+        ));
+
+        connection.open(null, (err) => {
+            if (err) {
+                done(err);
+                return;
+            }
+
+            let statements = [];
+            for (let table of ["searchable_dummies", "searchable_dummies_json", "searchable_dummies_o'json"]) {
+                statements.push('DROP VIEW IF EXISTS "' + table + '_search_content"');
+                statements.push('DROP TABLE IF EXISTS "' + table + '_search"');
+                statements.push('DROP TABLE IF EXISTS "' + table + '"');
+            }
+            connection.getConnection().exec(statements.join("; "), done);
+        });
+    });
+
+    teardown((done) => {
+        connection.close(null, done);
+    });
+
+    let testSearch = async (persistence: SearchableSqlitePersistence | SearchableJsonSqlitePersistence) => {
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+        await persistence.openAsync(null);
+
+        await persistence.createManyAsync(null, [
+            { id: "1", key: "Key 1", title: "Brave new world", body: "A novel about a world state of genetically modified citizens" },
+            { id: "2", key: "Key 2", title: "The world", body: "Short notes" },
+            { id: "3", key: "Key 1", title: "Animal farm", body: "A farm story" }
+        ]);
+
+        // Search ranks better matches first
+        let page = await persistence.searchAsync(null, "world", new PagingParams(0, 10, true));
+        assert.equal(2, page.total);
+        assert.lengthOf(page.data, 2);
+        assert.equal("2", page.data[0].item.id);
+        assert.equal("The world", page.data[0].item.title);
+        assert.isTrue(page.data[0].rank <= page.data[1].rank);
+        assert.equal("The <b>world</b>", page.data[0].snippets.title);
+        assert.include(page.data[1].snippets.body, "<b>world</b>");
+
+        page = await persistence.searchAsync(null, "world", new PagingParams(1, 10, true));
+        assert.equal(2, page.total);
+        assert.lengthOf(page.data, 1);
+
+        // Queries can target indexed fields
+        page = await persistence.searchAsync(null, "title: farm", null);
+        assert.lengthOf(page.data, 1);
+        assert.equal("3", page.data[0].item.id);
+
+        // Search can be combined with filters
+        page = await persistence.searchByKeyAsync("world", "Key 1");
+        assert.lengthOf(page.data, 1);
+        assert.equal("1", page.data[0].item.id);
+
+        // Index follows writes
+        await persistence.updateAsync(null, { id: "2", key: "Key 2", title: "The farm", body: "Short notes" });
+        await persistence.deleteByIdAsync(null, "1");
+        page = await persistence.searchAsync(null, "world", null);
+        assert.lengthOf(page.data, 0);
+        page = await persistence.searchAsync(null, "farm", null);
+        assert.lengthOf(page.data, 2);
+
+        await persistence.rebuildSearchIndexAsync(null);
+        page = await persistence.searchAsync(null, "farm", null);
+        assert.lengthOf(page.data, 2);
+
+        // Invalid queries are rejected
+        let error = null;
+        try {
+            await persistence.searchAsync(null, '"farm', null);
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+        assert.equal("INVALID_SEARCH_QUERY", error.code);
+
+        await persistence.closeAsync(null);
+    };
+
+    test('Column Search', async () => {
+        await testSearch(new SearchableSqlitePersistence());
+    });
+
+    test('JSON Search', async () => {
+        await testSearch(new SearchableJsonSqlitePersistence());
+    });
+
+    test('Quoted Table Search', async () => {
+        await testSearch(new SearchableJsonSqlitePersistence("searchable_dummies_o'json"));
+    });
+});
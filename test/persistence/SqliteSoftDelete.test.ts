@@ -0,0 +1,196 @@
+const assert = require('chai').assert;
+const process = require('process');
+
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { IdentifiableSqlitePersistence } from '../../src/persistence/IdentifiableSqlitePersistence';
+import { IdentifiableJsonSqlitePersistence } from '../../src/persistence/IdentifiableJsonSqlitePersistence';
+
+class SoftDeletedSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    public constructor() {
+        super('soft_dummies');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureSchema('CREATE TABLE "soft_dummies" ("id" VARCHAR(32) PRIMARY KEY, "key" VARCHAR(50), "deleted_at" VARCHAR(30))');
+    }
+
+    public getCountAsync(filter: any): Promise<number> {
+        return this.getCountByFilterAsync(null, filter);
+    }
+
+    public getPageAsync(filter: any): Promise<any> {
+        return this.getPageByFilterAsync(null, filter, null, null, null);
+    }
+
+    public deleteAsync(filter: any): Promise<number> {
+        return this.deleteByFilterAsync(null, filter);
+    }
+}
+
+class NotDeletedSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    public constructor() {
+        super('soft_dummies');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureSchema('CREATE TABLE "soft_dummies" ("id" VARCHAR(32) PRIMARY KEY, "key" VARCHAR(50))');
+    }
+
+    public getConnection(): SqliteConnection {
+        return this._connection;
+    }
+}
+
+class SoftDeletedJsonSqlitePersistence extends IdentifiableJsonSqlitePersistence<any, string> {
+    public constructor() {
+        super('soft_dummies_json');
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureTable();
+    }
+
+    public getCountAsync(filter: any): Promise<number> {
+        return this.getCountByFilterAsync(null, filter);
+    }
+
+    public getPageAsync(filter: any): Promise<any> {
+        return this.getPageByFilterAsync(null, filter, null, null, null);
+    }
+
+    public deleteAsync(filter: any): Promise<number> {
+        return this.deleteByFilterAsync(null, filter);
+    }
+}
+
+suite('SqliteSoftDelete', ()=> {
+    let connection: SqliteConnection;
+
+    let sqliteDatabase = process.env['SQLITE_DB'] || './data/test.db';
+    if (sqliteDatabase == null)
+        return;
+
+    setup((done) => {
+        connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase
+        ));
+
+        connection.open(null, (err) => {
+            if (err) {
+                done(err);
+                return;
+            }
+
+            connection.getConnection().exec('DROP TABLE IF EXISTS "soft_dummies"; '
+                + 'DROP TABLE IF EXISTS "soft_dummies_json"', done);
+        });
+    });
+
+    teardown((done) => {
+        connection.close(null, done);
+    });
+
+    let testSoftDelete = async (persistence: SoftDeletedSqlitePersistence | SoftDeletedJsonSqlitePersistence) => {
+        persistence.configure(ConfigParams.fromTuples(
+            'options.soft_delete', true
+        ));
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+        await persistence.openAsync(null);
+
+        await persistence.createManyAsync(null, [
+            { id: "1", key: "Key 1" }, { id: "2", key: "Key 2" }, { id: "3", key: "Key 3" }, { id: "4", key: "Key 4" }
+        ]);
+
+        // Delete items
+        let item = await persistence.deleteByIdAsync(null, "1");
+        assert.equal("Key 1", item.key);
+        let count = await persistence.deleteByIdsAsync(null, ["1", "2"]);
+        assert.equal(1, count);
+        count = await persistence.deleteAsync("id='3'");
+        assert.equal(1, count);
+
+        // Deleted items are hidden from reads and writes
+        assert.isNull(await persistence.getOneByIdAsync(null, "1"));
+        let items = await persistence.getListByIdsAsync(null, ["1", "2", "3", "4"]);
+        assert.lengthOf(items, 1);
+        assert.equal(1, await persistence.getCountAsync(null));
+        let page = await persistence.getPageAsync("id IN ('1','4')");
+        assert.lengthOf(page.data, 1);
+        assert.isNull(await persistence.updateAsync(null, { id: "2", key: "Key 5" }));
+        assert.isNull(await persistence.deleteByIdAsync(null, "2"));
+
+        // Restore deleted item
+        item = await persistence.restoreByIdAsync(null, "1");
+        assert.equal("Key 1", item.key);
+        assert.isNull(await persistence.restoreByIdAsync(null, "1"));
+        assert.equal(2, await persistence.getCountAsync(null));
+
+        // Set makes deleted item active again
+        item = await persistence.setAsync(null, { id: "2", key: "Key 6" });
+        assert.equal("Key 6", item.key);
+        assert.equal(3, await persistence.getCountAsync(null));
+
+        // Purge deleted items
+        count = await persistence.purgeAsync(null, new Date(Date.now() - 60000));
+        assert.equal(0, count);
+        count = await persistence.purgeAsync(null, null);
+        assert.equal(1, count);
+        assert.isNull(await persistence.restoreByIdAsync(null, "3"));
+
+        await persistence.closeAsync(null);
+    };
+
+    test('Column Table', async () => {
+        await testSoftDelete(new SoftDeletedSqlitePersistence());
+    });
+
+    test('JSON Table', async () => {
+        await testSoftDelete(new SoftDeletedJsonSqlitePersistence());
+    });
+
+    test('Missing Deleted Column', async () => {
+        let persistence = new NotDeletedSqlitePersistence();
+        persistence.configure(ConfigParams.fromTuples(
+            'options.soft_delete', true
+        ));
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+
+        let error = null;
+        try {
+            await persistence.openAsync(null);
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+        assert.equal("NO_DELETED_COLUMN", error.code);
+        assert.isFalse(persistence.isOpen());
+        assert.isTrue(connection.isOpen());
+
+        // Local connection is closed when the component fails to open
+        persistence = new NotDeletedSqlitePersistence();
+        persistence.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase,
+            'options.soft_delete', true
+        ));
+
+        error = null;
+        try {
+            await persistence.openAsync(null);
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+        assert.isFalse(persistence.getConnection().isOpen());
+    });
+});
@@ -0,0 +1,131 @@
+const assert = require('chai').assert;
+const process = require('process');
+
+import { AnyValueMap } from 'pip-services3-commons-node';
+import { ConfigParams } from 'pip-services3-commons-node';
+import { Descriptor } from 'pip-services3-commons-node';
+import { References } from 'pip-services3-commons-node';
+import { SqliteConnection } from '../../src/persistence/SqliteConnection';
+import { IdentifiableSqlitePersistence } from '../../src/persistence/IdentifiableSqlitePersistence';
+import { IdentifiableJsonSqlitePersistence } from '../../src/persistence/IdentifiableJsonSqlitePersistence';
+
+class VersionedSqlitePersistence extends IdentifiableSqlitePersistence<any, string> {
+    public constructor() {
+        super('versioned_dummies');
+        this._versionField = "version";
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureSchema('CREATE TABLE "versioned_dummies" ("id" VARCHAR(32) PRIMARY KEY, "key" VARCHAR(50), "version" INTEGER)');
+    }
+}
+
+class VersionedJsonSqlitePersistence extends IdentifiableJsonSqlitePersistence<any, string> {
+    public constructor() {
+        super('versioned_dummies_json');
+        this._versionField = "version";
+    }
+
+    protected defineSchema(): void {
+        this.clearSchema();
+        this.ensureTable();
+    }
+}
+
+suite('SqliteVersioning', ()=> {
+    let connection: SqliteConnection;
+
+    let sqliteDatabase = process.env['SQLITE_DB'] || './data/test.db';
+    if (sqliteDatabase == null)
+        return;
+
+    setup((done) => {
+        connection = new SqliteConnection();
+        connection.configure(ConfigParams.fromTuples(
+            'connection.database', sqliteDatabase
+        ));
+
+        connection.open(null, (err) => {
+            if (err) {
+                done(err);
+                return;
+            }
+
+            connection.getConnection().exec('DROP TABLE IF EXISTS "versioned_dummies"; '
+                + 'DROP TABLE IF EXISTS "versioned_dummies_json"', done);
+        });
+    });
+
+    teardown((done) => {
+        connection.close(null, done);
+    });
+
+    let assertConflict = async (promise: Promise<any>) => {
+        let error = null;
+        try {
+            await promise;
+        } catch (ex) {
+            error = ex;
+        }
+        assert.isNotNull(error);
+        assert.equal("VERSION_CONFLICT", error.code);
+    };
+
+    let testVersioning = async (persistence: IdentifiableSqlitePersistence<any, string>) => {
+        persistence.setReferences(References.fromTuples(
+            new Descriptor("pip-services", "connection", "sqlite", "default", "1.0"), connection
+        ));
+        await persistence.openAsync(null);
+
+        let item = await persistence.createAsync(null, { id: "1", key: "Key 1" });
+        assert.equal(1, item.version);
+
+        // Update with the current version
+        item = await persistence.updateAsync(null, { id: "1", key: "Key 2", version: 1 });
+        assert.equal("Key 2", item.key);
+        assert.equal(2, item.version);
+
+        // Update with a stale version
+        await assertConflict(persistence.updateAsync(null, { id: "1", key: "Key 3", version: 1 }));
+        await assertConflict(persistence.setAsync(null, { id: "1", key: "Key 3", version: 1 }));
+        await assertConflict(persistence.updatePartiallyAsync(null, "1", AnyValueMap.fromTuples("key", "Key 3", "version", 1)));
+
+        item = await persistence.getOneByIdAsync(null, "1");
+        assert.equal("Key 2", item.key);
+        assert.equal(2, item.version);
+
+        // Writes without version are not checked
+        item = await persistence.updateAsync(null, { id: "1", key: "Key 3" });
+        assert.equal(3, item.version);
+
+        item = await persistence.setAsync(null, { id: "1", key: "Key 4", version: 3 });
+        assert.equal(4, item.version);
+
+        item = await persistence.updatePartiallyAsync(null, "1", AnyValueMap.fromTuples("key", "Key 5", "version", 4));
+        assert.equal("Key 5", item.key);
+        assert.equal(5, item.version);
+
+        // Missing items are not reported as conflicts
+        item = await persistence.updateAsync(null, { id: "2", key: "Key 6", version: 1 });
+        assert.isNull(item);
+
+        item = await persistence.setAsync(null, { id: "2", key: "Key 6" });
+        assert.equal(1, item.version);
+
+        await persistence.setManyAsync(null, [{ id: "1", key: "Key 7" }, { id: "3", key: "Key 8" }]);
+        let items = await persistence.getListByIdsAsync(null, ["1", "3"]);
+        let versions = items.map((item) => item.id + ":" + item.version);
+        assert.sameMembers(["1:6", "3:1"], versions);
+
+        await persistence.closeAsync(null);
+    };
+
+    test('Column Version', async () => {
+        await testVersioning(new VersionedSqlitePersistence());
+    });
+
+    test('JSON Version', async () => {
+        await testVersioning(new VersionedJsonSqlitePersistence());
+    });
+});